@@ -1,8 +1,16 @@
 // backend/src/server.ts - COMPLETE WebSocket Server with ALL Features
 
 import WebSocket, { WebSocketServer } from 'ws';
-import { createServer } from 'http';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { parse } from 'url';
+import { ParsedUrlQuery } from 'querystring';
+import { appendFileSync, createReadStream, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { EventEmitter } from 'events';
+import { connect as netConnect, Socket } from 'net';
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, randomBytes, randomInt, sign, timingSafeEqual, verify, KeyObject } from 'crypto';
 
 // ============================================================================
 // TYPES
@@ -22,766 +30,6248 @@ interface PlayerState {
   radius: number;
   vx: number;
   vy: number;
+  // Round-trip time in ms, for clients and lag compensation; null until measured
+  latency: number | null;
+}
+
+// The part of a ws socket the managers use; a RemoteSocket offers the same, but not ping or terminate
+interface ClientSocket {
+  readonly readyState: number;
+  send(data: string | Buffer): void;
+  close(code?: number, reason?: string): void;
+  on(event: 'message', listener: (data: Buffer) => void): this;
+  on(event: 'close', listener: (code: number, reason: Buffer) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
 }
 
 interface ClientConnection {
-  ws: WebSocket;
+  ws: ClientSocket;
   playerId: string;
   gameId: number;
-  lastHeartbeat: number;
-  isAlive: boolean;
+  // Smoothed round-trip time from protocol pings; null until the first pong
+  latency: number | null;
+  protocolVersion: number;
+  encoding: FrameEncoding;
+  snapshots: SnapshotStream;
+}
+
+// What a second socket for a player already connected to the same game or battle does
+type DuplicatePolicy = 'replace' | 'reject';
+
+interface GameRules {
+  minPlayers: number;
+  maxPlayers: number;
+  countdownDuration: number;
+  // Whether a lone ready player wins outright instead of waiting for opponents
+  soloWinner: boolean;
+  // Active games still running after this long are decided by remaining HP; null for no limit
+  maxDuration: number | null;
+  autoStartDelay: number;
+  // What happens to members who have not marked ready when the deadline starts the game
+  unreadyPolicy: 'kick' | 'refund';
 }
 
 interface GameSession {
   gameId: number;
   phase: 'waiting' | 'countdown' | 'active' | 'ended';
+  rules: GameRules;
   countdownStartTime: number | null;
   countdownDuration: number;
   players: Map<string, PlayerState>;
+  members: Set<string>;
+  disconnected: Set<string>;
+  kicked: Set<string>;
   readyPlayers: Set<string>;
+  hostId: string | null;
+  deadline: number | null;
+  // Members whose entry should be returned because they never played
+  refunds: string[];
   startTime: number | null;
   winner: string | null;
+  eliminations: Placement[];
+  result: GameResult | null;
+}
+
+interface PlayerInput {
+  dx: number;
+  dy: number;
+  boost: boolean;
+  ability: boolean;
+  seq: number;
+}
+
+interface PowerUp {
+  id: number;
+  kind: 'shield' | 'speed';
+  x: number;
+  y: number;
+}
+
+interface SafeZone {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+interface SimulationSnapshot {
+  tick: number;
+  serverTime: number;
+  players: PlayerState[];
+  powerUps: PowerUp[];
+  zone: SafeZone;
+  acks: Record<string, number>;
+}
+
+type EliminationReason = 'collision' | 'ability' | 'zone' | 'forfeit' | 'time_limit';
+
+interface EliminationEvent {
+  playerId: string;
+  reason: EliminationReason;
+  eliminatedBy: string | null;
+  tick: number;
+}
+
+interface Placement {
+  playerId: string;
+  placement: number;
+  reason: EliminationReason | null;
+  eliminatedBy: string | null;
+  eliminatedAt: number | null;
+}
+
+interface GameResult {
+  gameId: number;
+  winnerId: string;
+  placements: Placement[];
+  startTime: number | null;
+  endTime: number;
+  resultHash: string;
+  signature: string;
+  signerPublicKey: string;
 }
 
 interface BattleMove {
   playerId: string;
-  move: string;
+  commitment: string;
+  move: string | null;
+  salt: string | null;
   round: number;
   submittedAt: number;
+  revealedAt: number | null;
 }
 
 interface BattleSession {
   challengeId: string;
   players: Set<string>;
-  connections: Map<string, WebSocket>;
+  connections: Map<string, ClientSocket>;
   moves: Map<number, BattleMove[]>;
   status: 'waiting' | 'ready' | 'in_progress' | 'ended';
   winner: string | null;
   createdAt: number;
+  revealTimer: NodeJS.Timeout | null;
+  revealDeadline: number | null;
+  revealTimeRemaining: number | null;
+  ruleset: BattleRuleset;
+  currentRound: number;
+  scores: Map<string, number>;
+  roundResults: RoundResult[];
+  roundTimer: NodeJS.Timeout | null;
+  roundTimerBroadcast: NodeJS.Timeout | null;
+  roundDeadline: number | null;
+  roundTimeRemaining: number | null;
+  consecutiveTimeouts: Map<string, number>;
+  reconnectTimers: Map<string, NodeJS.Timeout>;
+  spectators: Set<ClientSocket>;
+  // Set for matchmade battles: only these players may join
+  allowedPlayers: Set<string> | null;
+  stakeTier: string | null;
+}
+
+interface BattleTimingOptions {
+  roundTimeout: number;
+  timerBroadcastInterval: number;
+  maxConsecutiveTimeouts: number;
+  timeoutPolicy: 'forfeit_round' | 'default_move';
+  reconnectGrace: number;
+  spectatorDelay: number;
+  // Battles that are not running are dropped this long after creation
+  expiry: number;
+}
+
+interface BattleRuleset {
+  name: string;
+  moves: readonly string[];
+  bestOf: number;
+  isValidMove(move: string): boolean;
+  // Returns the player who won the round, or null for a draw
+  resolveRound(a: { playerId: string; move: string }, b: { playerId: string; move: string }): string | null;
+}
+
+interface RoundResult {
+  round: number;
+  winner: string | null;
+  moves: { playerAddress: string; move: string }[];
+  timedOut: string[];
 }
 
 // ============================================================================
-// PHASE 3 GAME MANAGER
+// LOGGING
 // ============================================================================
 
-class GameManager {
-  private games: Map<number, GameSession> = new Map();
-  private gameTimers: Map<number, NodeJS.Timeout> = new Map();
-  private onGameStateChange?: (gameId: number) => void;
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+type LogContext = Record<string, unknown>;
 
-  setGameStateChangeCallback(callback: (gameId: number) => void) {
-    this.onGameStateChange = callback;
-  }
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_THRESHOLD = LOG_LEVEL_ORDER[(process.env.LOG_LEVEL as LogLevel) in LOG_LEVEL_ORDER ? process.env.LOG_LEVEL as LogLevel : 'info'];
 
-  getOrCreateGame(gameId: number): GameSession {
-    if (!this.games.has(gameId)) {
-      this.games.set(gameId, {
-        gameId,
-        phase: 'waiting',
-        countdownStartTime: null,
-        countdownDuration: 15000,
-        players: new Map(),
-        readyPlayers: new Set(),
-        startTime: null,
-        winner: null
-      });
-      console.log(`[GameManager] Created new game session: ${gameId}`);
-    }
-    return this.games.get(gameId)!;
-  }
+// Errors lose their message and stack under JSON.stringify, so they are flattened first
+function toLogValue(value: unknown): unknown {
+  return value instanceof Error ? { message: value.message, stack: value.stack } : value;
+}
 
-  addPlayer(gameId: number, playerId: string): void {
-    const game = this.getOrCreateGame(gameId);
+// Writes one JSON object per line; gameId, playerId and the like go in context so lines can be filtered per match
+class Logger {
+  constructor(private component: string, private context: LogContext = {}) { }
 
-    if (!game.players.has(playerId)) {
-      console.log(`[GameManager] Player ${playerId.slice(0, 8)} joined game ${gameId}`);
-    }
+  child(context: LogContext): Logger {
+    return new Logger(this.component, { ...this.context, ...context });
   }
 
-  removePlayer(gameId: number, playerId: string): void {
-    const game = this.games.get(gameId);
-    if (!game) return;
-
-    game.players.delete(playerId);
-    game.readyPlayers.delete(playerId);
-
-    console.log(`[GameManager] Player ${playerId.slice(0, 8)} left game ${gameId}`);
+  debug(message: string, context?: LogContext): void {
+    this.write('debug', message, context);
+  }
 
-    if (game.players.size === 0) {
-      this.clearGameTimer(gameId);
-      this.games.delete(gameId);
-      console.log(`[GameManager] Game ${gameId} deleted (no players)`);
-    }
+  info(message: string, context?: LogContext): void {
+    this.write('info', message, context);
   }
 
-  updatePlayerState(gameId: number, playerId: string, state: PlayerState): void {
-    const game = this.games.get(gameId);
-    if (!game) return;
+  warn(message: string, context?: LogContext): void {
+    this.write('warn', message, context);
+  }
 
-    game.players.set(playerId, state);
+  error(message: string, context?: LogContext): void {
+    this.write('error', message, context);
   }
 
-  markPlayerReady(gameId: number, playerId: string): void {
-    const game = this.getOrCreateGame(gameId);
-    game.readyPlayers.add(playerId);
+  private write(level: LogLevel, message: string, context?: LogContext): void {
+    if (LOG_LEVEL_ORDER[level] < LOG_THRESHOLD) return;
 
-    console.log(`[GameManager] Player ${playerId.slice(0, 8)} marked ready in game ${gameId}`);
-    console.log(`[GameManager] Ready count: ${game.readyPlayers.size}/${game.players.size}`);
+    const entry: LogContext = { time: new Date().toISOString(), level, component: this.component, msg: message };
+    Object.entries({ ...this.context, ...context }).forEach(([key, value]) => {
+      if (value !== undefined) entry[key] = toLogValue(value);
+    });
 
-    if (this.onGameStateChange) {
-      this.onGameStateChange(gameId);
-    }
+    const stream = LOG_LEVEL_ORDER[level] >= LOG_LEVEL_ORDER.warn ? process.stderr : process.stdout;
+    stream.write(JSON.stringify(entry) + '\n');
   }
+}
 
-  canStartGame(gameId: number): { canStart: boolean; reason: string; readyCount: number } {
-    const game = this.games.get(gameId);
-    if (!game) {
-      return { canStart: false, reason: 'Game not found', readyCount: 0 };
-    }
+// ============================================================================
+// METRICS
+// ============================================================================
 
-    const readyCount = game.readyPlayers.size;
+type MetricLabels = Record<string, string>;
 
-    if (game.phase !== 'waiting') {
-      return { canStart: false, reason: `Game already in phase: ${game.phase}`, readyCount };
-    }
+const FANOUT_BUCKETS = [0, 1, 2, 5, 10, 25, 50, 100];
 
-    if (readyCount === 0) {
-      return { canStart: false, reason: 'No players ready', readyCount: 0 };
-    }
+function formatSample(name: string, labels: MetricLabels, value: number): string {
+  const pairs = Object.entries(labels)
+    .map(([key, label]) => `${key}="${label.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`;
+}
 
-    if (readyCount === 1) {
-      return { canStart: true, reason: 'Auto-winner (1 player ready)', readyCount: 1 };
-    }
+// One value per distinct label set; callers pass labels in a fixed key order
+abstract class SeriesMetric {
+  abstract readonly type: 'counter' | 'gauge';
+  protected series: Map<string, { labels: MetricLabels; value: number }> = new Map();
 
-    return { canStart: true, reason: `${readyCount} players ready for battle`, readyCount };
-  }
+  constructor(readonly name: string, readonly help: string) { }
 
-  startGame(gameId: number): { success: boolean; message: string; gameState?: GameSession } {
-    const game = this.games.get(gameId);
-    if (!game) {
-      return { success: false, message: 'Game not found' };
+  protected add(labels: MetricLabels, amount: number): void {
+    const key = JSON.stringify(labels);
+    const entry = this.series.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.series.set(key, { labels, value: amount });
     }
+  }
 
-    const { canStart, reason, readyCount } = this.canStartGame(gameId);
-
-    if (!canStart) {
-      return { success: false, message: reason };
-    }
+  render(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) => formatSample(this.name, labels, value));
+  }
+}
 
-    if (readyCount === 1) {
-      const winnerId = Array.from(game.readyPlayers)[0];
-      game.phase = 'ended';
-      game.winner = winnerId;
-      console.log(`[GameManager] Auto-winner declared: ${winnerId.slice(0, 8)}`);
-      return { success: true, message: 'Auto-winner declared', gameState: game };
-    }
+class Counter extends SeriesMetric {
+  readonly type = 'counter';
 
-    game.phase = 'countdown';
-    game.countdownStartTime = Date.now();
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    this.add(labels, amount);
+  }
+}
 
-    console.log(`[GameManager] Game ${gameId} starting countdown with ${readyCount} players`);
+class Gauge extends SeriesMetric {
+  readonly type = 'gauge';
 
-    const countdownTimer = setTimeout(() => {
-      this.transitionToActive(gameId);
-    }, game.countdownDuration);
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    this.add(labels, amount);
+  }
 
-    this.gameTimers.set(gameId, countdownTimer);
+  dec(labels: MetricLabels = {}, amount: number = 1): void {
+    this.add(labels, -amount);
+  }
 
-    return { success: true, message: 'Countdown started', gameState: game };
+  set(labels: MetricLabels, value: number): void {
+    this.series.set(JSON.stringify(labels), { labels, value });
   }
 
-  private transitionToActive(gameId: number): void {
-    const game = this.games.get(gameId);
-    if (!game) return;
+  reset(): void {
+    this.series.clear();
+  }
+}
 
-    game.phase = 'active';
-    game.startTime = Date.now();
+class Histogram {
+  readonly type = 'histogram';
+  private series: Map<string, { labels: MetricLabels; buckets: number[]; sum: number; count: number }> = new Map();
 
-    console.log(`[GameManager] Game ${gameId} transitioned to ACTIVE phase`);
+  constructor(readonly name: string, readonly help: string, private bounds: number[]) { }
 
-    if (this.onGameStateChange) {
-      this.onGameStateChange(gameId);
+  observe(labels: MetricLabels, value: number): void {
+    const key = JSON.stringify(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
     }
+
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry!.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
   }
 
-  declareWinner(gameId: number, winnerId: string): void {
-    const game = this.games.get(gameId);
-    if (!game) return;
+  render(): string[] {
+    return Array.from(this.series.values()).flatMap(({ labels, buckets, sum, count }) => [
+      ...this.bounds.map((bound, index) => formatSample(`${this.name}_bucket`, { ...labels, le: String(bound) }, buckets[index])),
+      formatSample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, count),
+      formatSample(`${this.name}_sum`, labels, sum),
+      formatSample(`${this.name}_count`, labels, count)
+    ]);
+  }
+}
 
-    game.phase = 'ended';
-    game.winner = winnerId;
+type Metric = Counter | Gauge | Histogram;
 
-    this.clearGameTimer(gameId);
+// Renders the Prometheus text exposition format; point-in-time gauges are refreshed by collectors at scrape time
+class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: (() => void)[] = [];
 
-    console.log(`[GameManager] Winner declared for game ${gameId}: ${winnerId.slice(0, 8)}`);
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
   }
 
-  getGameState(gameId: number): GameSession | undefined {
-    return this.games.get(gameId);
+  addCollector(collect: () => void): void {
+    this.collectors.push(collect);
   }
 
-  private clearGameTimer(gameId: number): void {
-    const timer = this.gameTimers.get(gameId);
-    if (timer) {
-      clearTimeout(timer);
-      this.gameTimers.delete(gameId);
-    }
+  render(): string {
+    this.collectors.forEach(collect => collect());
+
+    return this.metrics
+      .map(metric => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()].join('\n'))
+      .join('\n') + '\n';
   }
 }
 
+const metricsRegistry = new MetricsRegistry();
+
+const metrics = {
+  connections: metricsRegistry.register(new Gauge('phase3_connections', 'Open WebSocket connections by endpoint and role')),
+  games: metricsRegistry.register(new Gauge('phase3_games', 'Phase 3 games held in memory by phase')),
+  battles: metricsRegistry.register(new Gauge('phase3_battles', 'Battles held in memory by status')),
+  messagesIn: metricsRegistry.register(new Counter('phase3_messages_received_total', 'Valid client messages received by type')),
+  messagesOut: metricsRegistry.register(new Counter('phase3_messages_sent_total', 'Server messages sent by type, counted once per recipient')),
+  parseErrors: metricsRegistry.register(new Counter('phase3_parse_errors_total', 'Client messages rejected before handling by error code')),
+  fanout: metricsRegistry.register(new Histogram('phase3_broadcast_fanout', 'Recipients reached per broadcast by channel', FANOUT_BUCKETS)),
+  timers: metricsRegistry.register(new Gauge('phase3_timers', 'Pending server timers by owner and kind'))
+};
+
 // ============================================================================
-// CONNECTION MANAGER
+// PROTOCOL
 // ============================================================================
 
-class ConnectionManager {
-  private connections: Map<string, ClientConnection> = new Map();
-  private gameConnections: Map<number, Set<string>> = new Map();
+// Bump PROTOCOL_VERSION for every wire change; raise MIN_PROTOCOL_VERSION only when dropping old clients
+const PROTOCOL_VERSION = 2;
+const MIN_PROTOCOL_VERSION = 1;
+const MAX_STRING_FIELD_LENGTH = 512;
+
+type ErrorCode =
+  | 'INVALID_JSON'
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'INVALID_PAYLOAD'
+  | 'INVALID_STATE'
+  | 'NOT_ALLOWED'
+  | 'DEPRECATED_MESSAGE'
+  | 'RATE_LIMITED';
+
+type Phase3ClientMessage =
+  | { type: 'heartbeat' }
+  | { type: 'mark_ready' }
+  | { type: 'start_game' }
+  | { type: 'input'; data: Record<string, unknown> }
+  | { type: 'snapshot_ack'; tick: number }
+  | { type: 'time_sync'; clientTime: number }
+  | { type: 'set_deadline'; deadline?: number; delay?: number }
+  | { type: 'update' }
+  | { type: 'eliminated' }
+  | { type: 'winner' };
+
+type BattleClientMessage =
+  | { type: 'commit_move'; round: number; commitment: string }
+  | { type: 'reveal_move'; round: number; move: string; salt: string }
+  | { type: 'time_sync'; clientTime: number }
+  | { type: 'submit_move' }
+  | { type: 'game_ended' };
+
+type MatchmakingClientMessage =
+  | { type: 'join_queue'; tier: string }
+  | { type: 'leave_queue' };
+
+type AuthClientMessage = { type: 'auth_response'; signature: string };
+
+interface GameStateView {
+  phase: GameSession['phase'];
+  countdownStartTime: number | null;
+  countdownDuration: number;
+  readyPlayers: number;
+  totalPlayers: number;
+  spectators: number;
+  hostId: string | null;
+  deadline: number | null;
+  rules: GameRules;
+  // Remaining times are measured on the server clock at serverTime, so they hold regardless of client clock skew
+  serverTime: number;
+  countdownRemaining: number | null;
+  deadlineRemaining: number | null;
+}
 
-  addConnection(ws: WebSocket, playerId: string, gameId: number): void {
-    const connectionId = `${gameId}-${playerId}`;
+function buildGameStateView(game: GameSession, totalPlayers: number, spectators: number): GameStateView {
+  const now = Date.now();
+
+  return {
+    phase: game.phase,
+    countdownStartTime: game.countdownStartTime,
+    countdownDuration: game.countdownDuration,
+    readyPlayers: game.readyPlayers.size,
+    totalPlayers,
+    spectators,
+    hostId: game.hostId,
+    deadline: game.deadline,
+    rules: game.rules,
+    serverTime: now,
+    countdownRemaining: game.phase === 'countdown' && game.countdownStartTime !== null
+      ? Math.max(0, game.countdownStartTime + game.countdownDuration - now)
+      : null,
+    deadlineRemaining: game.phase === 'waiting' && game.deadline !== null ? Math.max(0, game.deadline - now) : null
+  };
+}
 
-    this.connections.set(connectionId, {
-      ws,
-      playerId,
-      gameId,
-      lastHeartbeat: Date.now(),
-      isAlive: true
-    });
+// Deadlines arrive either as a delay from now or as an absolute timestamp on the server clock (see time_sync)
+function resolveDeadline(request: { deadline?: unknown; delay?: unknown }): number | null {
+  const { deadline, delay } = request;
+  if ((deadline === undefined) === (delay === undefined)) return null;
 
-    if (!this.gameConnections.has(gameId)) {
-      this.gameConnections.set(gameId, new Set());
-    }
-    this.gameConnections.get(gameId)!.add(connectionId);
+  const value = delay !== undefined ? delay : deadline;
+  if (typeof value !== 'number' || !isFinite(value)) return null;
 
-    console.log(`[ConnectionManager] Connection added: ${connectionId}`);
-  }
+  return delay !== undefined ? Date.now() + value : value;
+}
 
-  removeConnection(playerId: string, gameId: number): void {
-    const connectionId = `${gameId}-${playerId}`;
+// NTP-style exchange: the client sends its clock, then estimates offset = serverTime - (clientTime + receivedAt) / 2
+function timeSyncReply(clientTime: number): ServerMessage {
+  return { type: 'time_sync', clientTime, serverTime: Date.now() };
+}
 
-    this.connections.delete(connectionId);
+interface SettlementView {
+  kind: 'game' | 'battle';
+  matchId: string;
+  outcome: 'payout' | 'refund';
+  status: 'pending' | 'confirmed' | 'failed';
+  attempts: number;
+  txSignature: string | null;
+  error: string | null;
+}
 
-    const gameConns = this.gameConnections.get(gameId);
-    if (gameConns) {
-      gameConns.delete(connectionId);
-      if (gameConns.size === 0) {
-        this.gameConnections.delete(gameId);
-      }
-    }
+interface RulesetView {
+  name: string;
+  moves: readonly string[];
+  bestOf: number;
+}
 
-    console.log(`[ConnectionManager] Connection removed: ${connectionId}`);
+type ServerMessage =
+  | { type: 'error'; code: ErrorCode; message: string }
+  | { type: 'auth_challenge'; nonce: string; message: string; expiresAt: number; protocolVersion: number }
+  | { type: 'auth_success'; playerId: string; sessionToken: string; expiresAt: number; protocolVersion: number; encoding: FrameEncoding }
+  | { type: 'game_state_update'; gameState: GameStateView }
+  | { type: 'time_sync'; clientTime: number; serverTime: number }
+  | { type: 'phase_changed'; phase: GameSession['phase']; previous: GameSession['phase']; serverTime: number }
+  | { type: 'countdown_tick'; remaining: number; endsAt: number; serverTime: number }
+  | ({ type: 'sync'; players: PlayerState[] } & Partial<Omit<SimulationSnapshot, 'players'>>)
+  | {
+    type: 'delta';
+    tick: number;
+    baseTick: number;
+    serverTime: number;
+    players: (Partial<PlayerState> & { id: string })[];
+    removed: string[];
+    powerUps?: PowerUp[];
+    zone?: SafeZone;
+    acks: Record<string, number>;
   }
+  | ({ type: 'eliminated' } & Placement)
+  | { type: 'eliminations'; placements: Placement[] }
+  | { type: 'winner'; winnerId: string; result: GameResult }
+  | { type: 'game_cancelled'; reason: string }
+  | { type: 'lobby_cancelled'; reason: string; minPlayers: number; readyPlayers: number; refunds: string[] }
+  | { type: 'unready_players'; policy: GameRules['unreadyPolicy']; playerIds: string[] }
+  | { type: 'player_connected' | 'player_reconnected' | 'player_disconnected' | 'player_kicked'; playerId: string }
+  | { type: 'player_reconnecting'; playerId: string; reconnectDeadline: number }
+  | { type: 'player_joined'; playerId: string; playersCount: number; challengeId?: string }
+  | { type: 'game_ready'; challengeId: string; players: string[]; ruleset: RulesetView; round: number; deadline: number | null }
+  | { type: 'opponent_moved' | 'opponent_left'; playerId: string }
+  | { type: 'queue_joined'; tier: string; rating: number; queueSize: number }
+  | { type: 'queue_left' }
+  | { type: 'rating_update'; updates: RatingUpdate[] }
+  | { type: 'settlement_status'; settlement: SettlementView }
+  | { type: 'match_found'; challengeId: string; opponentId: string; tier: string; opponentRating: number }
+  | { type: 'reveal_phase'; round: number; deadline: number }
+  | { type: 'round_complete'; round: number; moves: { playerAddress: string; move: string | null; salt: string | null }[] }
+  | { type: 'round_result'; round: number; winner: string | null; timedOut: string[]; scores: Record<string, number> }
+  | { type: 'round_start'; round: number; deadline: number | null }
+  | { type: 'round_timer'; round: number; deadline: number | null; remaining: number }
+  | { type: 'move_timeout'; round: number; players: string[]; policy: BattleTimingOptions['timeoutPolicy'] }
+  | { type: 'game_ended'; winner: string | null; reason: string; scores: Record<string, number>; challengeId: string }
+  | {
+    type: 'resync';
+    challengeId: string;
+    status: BattleSession['status'];
+    players: string[];
+    ruleset: RulesetView;
+    round: number;
+    deadline: number | null;
+    scores: Record<string, number>;
+    committed: string[];
+    revealed: string[];
+    roundResults: RoundResult[];
+    winner: string | null;
+  };
+
+type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object';
+type MessageSchema = Record<string, FieldType | `${FieldType}?`>;
+
+const PHASE3_MESSAGE_SCHEMAS: Record<Phase3ClientMessage['type'], MessageSchema> = {
+  heartbeat: {},
+  mark_ready: {},
+  start_game: {},
+  input: { data: 'object' },
+  snapshot_ack: { tick: 'integer' },
+  time_sync: { clientTime: 'number' },
+  set_deadline: { deadline: 'number?', delay: 'number?' },
+  update: {},
+  eliminated: {},
+  winner: {}
+};
+
+const BATTLE_MESSAGE_SCHEMAS: Record<BattleClientMessage['type'], MessageSchema> = {
+  commit_move: { round: 'integer', commitment: 'string' },
+  reveal_move: { round: 'integer', move: 'string', salt: 'string' },
+  time_sync: { clientTime: 'number' },
+  submit_move: {},
+  game_ended: {}
+};
+
+const MATCHMAKING_MESSAGE_SCHEMAS: Record<MatchmakingClientMessage['type'], MessageSchema> = {
+  join_queue: { tier: 'string' },
+  leave_queue: {}
+};
+
+const AUTH_MESSAGE_SCHEMAS: Record<AuthClientMessage['type'], MessageSchema> = {
+  auth_response: { signature: 'string' }
+};
+
+type ParseResult<T> = { ok: true; message: T } | { ok: false; code: ErrorCode; error: string };
+
+// Arrays and null are not objects as far as a payload is concerned
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
 
-  updateHeartbeat(playerId: string, gameId: number): void {
-    const connectionId = `${gameId}-${playerId}`;
-    const conn = this.connections.get(connectionId);
-    if (conn) {
-      conn.lastHeartbeat = Date.now();
-      conn.isAlive = true;
-    }
+function matchesFieldType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' && value.length <= MAX_STRING_FIELD_LENGTH;
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isJsonObject(value);
   }
+}
 
-  broadcastToGame(gameId: number, message: any, excludePlayerId?: string): void {
-    const gameConns = this.gameConnections.get(gameId);
-    if (!gameConns) return;
+function parseClientMessage<T extends { type: string }>(
+  data: Buffer | string,
+  schemas: Record<T['type'], MessageSchema>
+): ParseResult<T> {
+  const result = validateClientMessage<T>(data, schemas);
+  if (result.ok) {
+    metrics.messagesIn.inc({ type: result.message.type });
+  } else {
+    metrics.parseErrors.inc({ code: result.code });
+  }
+  return result;
+}
 
-    const messageStr = JSON.stringify(message);
-    let sentCount = 0;
+function validateClientMessage<T extends { type: string }>(
+  data: Buffer | string,
+  schemas: Record<T['type'], MessageSchema>
+): ParseResult<T> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data.toString());
+  } catch {
+    return { ok: false, code: 'INVALID_JSON', error: 'Message is not valid JSON' };
+  }
 
-    gameConns.forEach(connectionId => {
-      const conn = this.connections.get(connectionId);
-      if (conn && conn.ws.readyState === WebSocket.OPEN) {
-        if (!excludePlayerId || conn.playerId !== excludePlayerId) {
-          conn.ws.send(messageStr);
-          sentCount++;
-        }
-      }
-    });
+  if (!isJsonObject(raw) || typeof raw.type !== 'string') {
+    return { ok: false, code: 'INVALID_PAYLOAD', error: 'Message must be an object with a string type' };
+  }
 
-    console.log(`[ConnectionManager] Broadcasted ${message.type} to ${sentCount} players in game ${gameId}`);
+  const message = raw;
+  const type = raw.type;
+  if (!Object.prototype.hasOwnProperty.call(schemas, type)) {
+    return { ok: false, code: 'UNKNOWN_MESSAGE_TYPE', error: `Unknown message type: ${type.slice(0, 64)}` };
   }
 
-  sendToPlayer(playerId: string, gameId: number, message: any): void {
-    const connectionId = `${gameId}-${playerId}`;
-    const conn = this.connections.get(connectionId);
+  const schema: MessageSchema = (schemas as Record<string, MessageSchema>)[type];
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const fieldType = (optional ? spec.slice(0, -1) : spec) as FieldType;
+    const value = message[field];
 
-    if (conn && conn.ws.readyState === WebSocket.OPEN) {
-      conn.ws.send(JSON.stringify(message));
+    if (value === undefined && optional) continue;
+    if (!matchesFieldType(value, fieldType)) {
+      return { ok: false, code: 'INVALID_PAYLOAD', error: `Field ${field} of ${type} must be ${fieldType}` };
     }
   }
 
-  getGamePlayerIds(gameId: number): string[] {
-    const gameConns = this.gameConnections.get(gameId);
-    if (!gameConns) return [];
+  return { ok: true, message: message as unknown as T };
+}
 
-    return Array.from(gameConns)
-      .map(connId => this.connections.get(connId)?.playerId)
-      .filter(id => id !== undefined) as string[];
-  }
+// Picks the version to speak with a client; null means the client is too old (or too new) to serve
+function negotiateProtocolVersion(requested: unknown): number | null {
+  if (requested === undefined) return MIN_PROTOCOL_VERSION;
 
-  checkStaleConnections(): void {
-    const now = Date.now();
-    const staleTimeout = 60000;
+  const version = parseInt(requested as string);
+  if (!Number.isInteger(version) || version < MIN_PROTOCOL_VERSION) return null;
 
-    this.connections.forEach((conn, connectionId) => {
-      if (now - conn.lastHeartbeat > staleTimeout) {
-        console.log(`[ConnectionManager] Stale connection detected: ${connectionId}`);
-        if (conn.ws.readyState === WebSocket.OPEN) {
-          conn.ws.close();
-        }
-        this.removeConnection(conn.playerId, conn.gameId);
-      }
-    });
-  }
+  return Math.min(version, PROTOCOL_VERSION);
 }
 
-// ============================================================================
-// MESSAGE HANDLER
-// ============================================================================
+// Version 2 adds per-client delta snapshots and the optional msgpack encoding
+const DELTA_PROTOCOL_VERSION = 2;
 
-class MessageHandler {
-  constructor(
-    private gameManager: GameManager,
-    private connectionManager: ConnectionManager
-  ) { }
+type FrameEncoding = 'json' | 'msgpack';
 
-  handleMessage(playerId: string, gameId: number, message: any): void {
-    try {
-      switch (message.type) {
-        case 'heartbeat':
-          this.handleHeartbeat(playerId, gameId);
-          break;
+interface ConnectionOptions {
+  protocolVersion: number;
+  encoding: FrameEncoding;
+}
 
-        case 'mark_ready':
-          this.handleMarkReady(playerId, gameId);
-          break;
+// Binary frames are only offered to clients new enough to understand deltas; everyone else stays on JSON
+function negotiateEncoding(requested: unknown, protocolVersion: number): FrameEncoding {
+  return requested === 'msgpack' && protocolVersion >= DELTA_PROTOCOL_VERSION ? 'msgpack' : 'json';
+}
 
-        case 'start_game':
-          this.handleStartGame(playerId, gameId);
-          break;
+function encodeFrame(message: ServerMessage, encoding: FrameEncoding): string | Buffer {
+  return encoding === 'msgpack' ? encodeMsgPack(message) : JSON.stringify(message);
+}
 
-        case 'update':
-          this.handlePlayerUpdate(playerId, gameId, message.data);
-          break;
+// Just enough MessagePack for JSON-shaped values; non-integers go out as float32, which is plenty for positions
+function encodeMsgPack(value: unknown): Buffer {
+  const chunks: Buffer[] = [];
+  writeMsgPack(value, chunks);
+  return Buffer.concat(chunks);
+}
 
-        case 'eliminated':
-          this.handleEliminated(playerId, gameId);
-          break;
+function writeMsgPack(value: unknown, out: Buffer[]): void {
+  if (value === null || value === undefined) {
+    out.push(Buffer.from([0xc0]));
+  } else if (typeof value === 'boolean') {
+    out.push(Buffer.from([value ? 0xc3 : 0xc2]));
+  } else if (typeof value === 'number') {
+    out.push(encodeMsgPackNumber(value));
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    out.push(encodeMsgPackHeader(bytes.length, 0xa0, 32, 0xd9, 0xda, 0xdb), bytes);
+  } else if (Array.isArray(value)) {
+    out.push(encodeMsgPackHeader(value.length, 0x90, 16, null, 0xdc, 0xdd));
+    value.forEach(item => writeMsgPack(item, out));
+  } else {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+    out.push(encodeMsgPackHeader(entries.length, 0x80, 16, null, 0xde, 0xdf));
+    entries.forEach(([key, v]) => {
+      writeMsgPack(key, out);
+      writeMsgPack(v, out);
+    });
+  }
+}
 
-        case 'winner':
-          this.handleWinner(gameId, message.winnerId);
-          break;
+function encodeMsgPackNumber(value: number): Buffer {
+  if (Number.isInteger(value) && value >= -32 && value < 128) {
+    return Buffer.from([value & 0xff]);
+  }
+
+  if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff) {
+    const buffer = Buffer.alloc(5);
+    buffer[0] = 0xd2;
+    buffer.writeInt32BE(value, 1);
+    return buffer;
+  }
+
+  // Timestamps and other large integers need the full double to survive the trip
+  if (Number.isInteger(value) || !isFinite(value)) {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = 0xcb;
+    buffer.writeDoubleBE(value, 1);
+    return buffer;
+  }
+
+  const buffer = Buffer.alloc(5);
+  buffer[0] = 0xca;
+  buffer.writeFloatBE(value, 1);
+  return buffer;
+}
+
+function encodeMsgPackHeader(
+  length: number,
+  fixBase: number,
+  fixLimit: number,
+  byteMarker: number | null,
+  shortMarker: number,
+  longMarker: number
+): Buffer {
+  if (length < fixLimit) {
+    return Buffer.from([fixBase | length]);
+  }
+  if (byteMarker !== null && length < 0x100) {
+    return Buffer.from([byteMarker, length]);
+  }
+  if (length < 0x10000) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = shortMarker;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  }
+
+  const buffer = Buffer.alloc(5);
+  buffer[0] = longMarker;
+  buffer.writeUInt32BE(length, 1);
+  return buffer;
+}
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
+const MAX_MESSAGE_SIZE = 16 * 1024;
+const DEFAULT_MAX_CONNECTIONS_PER_IP = 20;
+const STRIKE_WINDOW = 10000;
+const STRIKES_BEFORE_WARNING = 5;
+const STRIKES_BEFORE_DISCONNECT = 50;
+
+interface BucketLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// Inputs arrive every frame; everything else is an occasional action
+const MESSAGE_RATE_LIMITS: Record<string, BucketLimit> = {
+  input: { capacity: 120, refillPerSecond: 60 },
+  snapshot_ack: { capacity: 60, refillPerSecond: 30 },
+  heartbeat: { capacity: 5, refillPerSecond: 1 },
+  time_sync: { capacity: 10, refillPerSecond: 1 },
+  mark_ready: { capacity: 3, refillPerSecond: 0.5 },
+  start_game: { capacity: 3, refillPerSecond: 0.2 },
+  set_deadline: { capacity: 3, refillPerSecond: 0.2 },
+  commit_move: { capacity: 5, refillPerSecond: 1 },
+  join_queue: { capacity: 3, refillPerSecond: 0.2 },
+  reveal_move: { capacity: 5, refillPerSecond: 1 },
+  auth_response: { capacity: 3, refillPerSecond: 0.2 }
+};
+
+const DEFAULT_RATE_LIMIT: BucketLimit = { capacity: 5, refillPerSecond: 1 };
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private limit: BucketLimit) {
+    this.tokens = limit.capacity;
+  }
+
+  take(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.limit.refillPerSecond);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+}
+
+interface ConnectionLimiter {
+  buckets: Map<string, TokenBucket>;
+  strikes: number;
+  lastStrikeAt: number;
+}
+
+// Over-limit messages are dropped; persistent flooding earns a warning and then a disconnect
+class FloodGuard {
+  private log = new Logger('FloodGuard');
+  private limiters: WeakMap<ClientSocket, ConnectionLimiter> = new WeakMap();
+  private connectionsPerIp: Map<string, number> = new Map();
+
+  constructor(private maxConnectionsPerIp: number = DEFAULT_MAX_CONNECTIONS_PER_IP) { }
+
+  // Counts the socket against its address until it closes; false means the cap is already reached
+  admit(ws: WebSocket, ip: string): boolean {
+    const count = this.connectionsPerIp.get(ip) ?? 0;
+    if (count >= this.maxConnectionsPerIp) {
+      this.log.warn('Connection cap reached', { ip, connections: count });
+      return false;
+    }
+
+    this.connectionsPerIp.set(ip, count + 1);
+    ws.on('close', () => {
+      const remaining = (this.connectionsPerIp.get(ip) ?? 1) - 1;
+      if (remaining > 0) {
+        this.connectionsPerIp.set(ip, remaining);
+      } else {
+        this.connectionsPerIp.delete(ip);
+      }
+    });
+    return true;
+  }
+
+  allow(ws: ClientSocket, type: string): boolean {
+    let limiter = this.limiters.get(ws);
+    if (!limiter) {
+      limiter = { buckets: new Map(), strikes: 0, lastStrikeAt: 0 };
+      this.limiters.set(ws, limiter);
+    }
+
+    const key = Object.prototype.hasOwnProperty.call(MESSAGE_RATE_LIMITS, type) ? type : '*';
+    let bucket = limiter.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(MESSAGE_RATE_LIMITS[key] ?? DEFAULT_RATE_LIMIT);
+      limiter.buckets.set(key, bucket);
+    }
+
+    if (bucket.take()) return true;
+
+    const now = Date.now();
+    if (now - limiter.lastStrikeAt > STRIKE_WINDOW) {
+      limiter.strikes = 0;
+    }
+    limiter.strikes++;
+    limiter.lastStrikeAt = now;
+
+    if (limiter.strikes === STRIKES_BEFORE_WARNING && ws.readyState === WebSocket.OPEN) {
+      const warning: ServerMessage = { type: 'error', code: 'RATE_LIMITED', message: `Too many ${key === '*' ? 'messages' : key} messages; slow down` };
+      ws.send(JSON.stringify(warning));
+      metrics.messagesOut.inc({ type: warning.type });
+    } else if (limiter.strikes >= STRIKES_BEFORE_DISCONNECT && ws.readyState === WebSocket.OPEN) {
+      this.log.warn('Disconnecting flooding client', { type: key, dropped: limiter.strikes });
+      ws.close(4008, 'Rate limit exceeded');
+    }
+    return false;
+  }
+}
+
+// ============================================================================
+// LIVENESS
+// ============================================================================
+
+// Each new round-trip sample moves the estimate a fifth of the way, so one slow pong does not spike it
+const RTT_SMOOTHING = 0.2;
+
+interface SocketLiveness {
+  lastPongAt: number;
+  pingSentAt: number | null;
+  rtt: number | null;
+}
+
+// Protocol-level ping/pong on every socket this node holds; browsers answer pings on their own
+class LivenessMonitor {
+  private log = new Logger('LivenessMonitor');
+  private sockets: Map<WebSocket, SocketLiveness> = new Map();
+  private onRtt?: (ws: WebSocket, rtt: number) => void;
+
+  constructor(private pingInterval: number, private timeout: number) { }
+
+  setRttCallback(callback: (ws: WebSocket, rtt: number) => void) {
+    this.onRtt = callback;
+  }
+
+  track(ws: WebSocket): void {
+    const state: SocketLiveness = { lastPongAt: Date.now(), pingSentAt: null, rtt: null };
+    this.sockets.set(ws, state);
+
+    ws.on('pong', () => {
+      const now = Date.now();
+      state.lastPongAt = now;
+      if (state.pingSentAt === null) return;
+
+      const sample = now - state.pingSentAt;
+      state.pingSentAt = null;
+      state.rtt = state.rtt === null ? sample : Math.round(state.rtt + (sample - state.rtt) * RTT_SMOOTHING);
+
+      if (this.onRtt) {
+        this.onRtt(ws, state.rtt);
+      }
+    });
+
+    ws.on('close', () => this.sockets.delete(ws));
+  }
+
+  getRtt(ws: WebSocket): number | null {
+    return this.sockets.get(ws)?.rtt ?? null;
+  }
+
+  // A socket that has not answered for longer than the timeout is dead, not just quiet; terminate skips the close handshake
+  start(): void {
+    setInterval(() => {
+      const now = Date.now();
+
+      this.sockets.forEach((state, ws) => {
+        if (now - state.lastPongAt > this.timeout) {
+          this.log.info('Terminating socket that stopped answering pings', { silentFor: now - state.lastPongAt });
+          this.sockets.delete(ws);
+          ws.terminate();
+          return;
+        }
+
+        if (ws.readyState === WebSocket.OPEN) {
+          state.pingSentAt = now;
+          ws.ping();
+        }
+      });
+    }, this.pingInterval);
+  }
+}
+
+// ============================================================================
+// PHASE 3 SIMULATION
+// ============================================================================
+
+const TICK_RATE = 20;
+const ARENA_WIDTH = 2000;
+const ARENA_HEIGHT = 2000;
+const PLAYER_RADIUS = 20;
+const PLAYER_MAX_HP = 100;
+const BASE_SPEED = 220;
+const ACCELERATION = 8;
+const BOOST_MULTIPLIER = 1.6;
+const SPEED_POWERUP_MULTIPLIER = 1.4;
+const COLLISION_DAMAGE_FACTOR = 0.05;
+const ABILITY_RANGE = 90;
+const ABILITY_DAMAGE = 15;
+const ABILITY_KNOCKBACK = 400;
+const ABILITY_COOLDOWN = 3000;
+const POWERUP_RADIUS = 15;
+const POWERUP_DURATION = 5000;
+const POWERUP_INTERVAL = 4000;
+const MAX_POWERUPS = 5;
+const ZONE_SHRINK_DELAY = 30000;
+const ZONE_SHRINK_DURATION = 90000;
+const ZONE_MIN_RADIUS = 150;
+const ZONE_DAMAGE_PER_SECOND = 10;
+const PLAYER_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#f97316', '#14b8a6', '#ec4899'];
+
+interface SimulatedPlayer {
+  state: PlayerState;
+  input: PlayerInput;
+  lastInputSeq: number;
+  shieldUntil: number;
+  speedUntil: number;
+  abilityReadyAt: number;
+  lastHit: { by: string | null; reason: EliminationReason } | null;
+}
+
+function parsePlayerInput(data: unknown): PlayerInput | null {
+  if (!isJsonObject(data)) return null;
+
+  const { dx, dy, boost, ability, seq } = data;
+  if (typeof dx !== 'number' || typeof dy !== 'number' || !isFinite(dx) || !isFinite(dy)) return null;
+  if (typeof seq !== 'number' || !Number.isInteger(seq) || seq < 0) return null;
+
+  // Direction is an intent, never a velocity: normalise so a client cannot move faster by sending large values
+  const length = Math.hypot(dx, dy);
+  const scale = length > 1 ? 1 / length : 1;
+
+  return {
+    dx: dx * scale,
+    dy: dy * scale,
+    boost: boost === true,
+    ability: ability === true,
+    seq
+  };
+}
+
+class GameSimulation {
+  private bodies: Map<string, SimulatedPlayer> = new Map();
+  private powerUps: PowerUp[] = [];
+  private tick = 0;
+  private nextPowerUpId = 1;
+  private nextPowerUpAt: number;
+  private startedAt: number;
+  private zone: SafeZone = { x: ARENA_WIDTH / 2, y: ARENA_HEIGHT / 2, radius: Math.hypot(ARENA_WIDTH, ARENA_HEIGHT) / 2 };
+
+  constructor(private game: GameSession) {
+    this.startedAt = Date.now();
+    this.nextPowerUpAt = this.startedAt + POWERUP_INTERVAL;
+  }
+
+  spawnPlayers(playerIds: string[]): void {
+    const spawnRadius = Math.min(ARENA_WIDTH, ARENA_HEIGHT) * 0.35;
+
+    playerIds.forEach((playerId, index) => {
+      const angle = (index / playerIds.length) * Math.PI * 2;
+      const state: PlayerState = {
+        id: playerId,
+        x: ARENA_WIDTH / 2 + Math.cos(angle) * spawnRadius,
+        y: ARENA_HEIGHT / 2 + Math.sin(angle) * spawnRadius,
+        hp: PLAYER_MAX_HP,
+        maxHp: PLAYER_MAX_HP,
+        alive: true,
+        hasShield: false,
+        hasSpeed: false,
+        name: playerId.slice(0, 8),
+        color: PLAYER_COLORS[index % PLAYER_COLORS.length],
+        radius: PLAYER_RADIUS,
+        vx: 0,
+        vy: 0,
+        latency: null
+      };
+
+      this.bodies.set(playerId, {
+        state,
+        input: { dx: 0, dy: 0, boost: false, ability: false, seq: 0 },
+        lastInputSeq: -1,
+        shieldUntil: 0,
+        speedUntil: 0,
+        abilityReadyAt: 0,
+        lastHit: null
+      });
+      this.game.players.set(playerId, state);
+    });
+  }
+
+  forfeit(playerId: string): EliminationEvent | null {
+    const body = this.bodies.get(playerId);
+    if (!body || !body.state.alive) return null;
+
+    this.kill(body);
+    return { playerId, reason: 'forfeit', eliminatedBy: null, tick: this.tick };
+  }
+
+  clearInput(playerId: string): void {
+    const body = this.bodies.get(playerId);
+    if (!body) return;
+
+    body.input = { ...body.input, dx: 0, dy: 0, boost: false, ability: false };
+  }
+
+  setLatency(playerId: string, latency: number): void {
+    const body = this.bodies.get(playerId);
+    if (body) {
+      body.state.latency = latency;
+    }
+  }
+
+  getAlivePlayerIds(): string[] {
+    return Array.from(this.bodies.values())
+      .filter(b => b.state.alive)
+      .map(b => b.state.id);
+  }
+
+  applyInput(playerId: string, input: PlayerInput): boolean {
+    const body = this.bodies.get(playerId);
+    if (!body || !body.state.alive) return false;
+
+    // Drop stale or replayed inputs
+    if (input.seq <= body.lastInputSeq) return false;
+    body.lastInputSeq = input.seq;
+
+    // Ability is edge-triggered: keep a pending press until the next tick consumes it
+    body.input = { ...input, ability: input.ability || body.input.ability };
+    return true;
+  }
+
+  // Returns the players eliminated this tick; simultaneous deaths are ordered by HP going into the tick, highest first
+  step(now: number): EliminationEvent[] {
+    const dt = 1 / TICK_RATE;
+    const alive = Array.from(this.bodies.values()).filter(b => b.state.alive);
+    const hpAtTickStart = new Map(alive.map(b => [b, b.state.hp]));
+
+    this.updateZone(now);
+    alive.forEach(body => this.integrate(body, dt, now));
+    alive.forEach(body => this.resolveAbility(body, alive, now));
+    this.resolveCollisions(alive, now);
+    this.applyZoneDamage(alive, dt, now);
+    this.updatePowerUps(alive, now);
+
+    const eliminated: SimulatedPlayer[] = [];
+    alive.forEach(body => {
+      body.state.hasShield = body.shieldUntil > now;
+      body.state.hasSpeed = body.speedUntil > now;
+
+      if (body.state.hp <= 0) {
+        this.kill(body);
+        eliminated.push(body);
+      }
+    });
+
+    eliminated.sort((a, b) =>
+      hpAtTickStart.get(b)! - hpAtTickStart.get(a)! || a.state.id.localeCompare(b.state.id)
+    );
+
+    const events = eliminated.map(body => ({
+      playerId: body.state.id,
+      reason: body.lastHit?.reason ?? 'zone',
+      eliminatedBy: body.lastHit?.by ?? null,
+      tick: this.tick
+    }));
+
+    this.tick++;
+    return events;
+  }
+
+  getSnapshot(): SimulationSnapshot {
+    const acks: Record<string, number> = {};
+    this.bodies.forEach((body, playerId) => {
+      acks[playerId] = body.lastInputSeq;
+    });
+
+    return {
+      tick: this.tick,
+      serverTime: Date.now(),
+      players: Array.from(this.bodies.values()).map(b => ({ ...b.state })),
+      powerUps: this.powerUps.map(p => ({ ...p })),
+      zone: { ...this.zone },
+      acks
+    };
+  }
+
+  private integrate(body: SimulatedPlayer, dt: number, now: number): void {
+    const { state, input } = body;
+
+    let speed = BASE_SPEED;
+    if (input.boost) speed *= BOOST_MULTIPLIER;
+    if (body.speedUntil > now) speed *= SPEED_POWERUP_MULTIPLIER;
+
+    const blend = Math.min(1, ACCELERATION * dt);
+    state.vx += (input.dx * speed - state.vx) * blend;
+    state.vy += (input.dy * speed - state.vy) * blend;
+
+    state.x += state.vx * dt;
+    state.y += state.vy * dt;
+
+    if (state.x < state.radius || state.x > ARENA_WIDTH - state.radius) {
+      state.x = Math.max(state.radius, Math.min(ARENA_WIDTH - state.radius, state.x));
+      state.vx = 0;
+    }
+    if (state.y < state.radius || state.y > ARENA_HEIGHT - state.radius) {
+      state.y = Math.max(state.radius, Math.min(ARENA_HEIGHT - state.radius, state.y));
+      state.vy = 0;
+    }
+  }
+
+  private resolveAbility(body: SimulatedPlayer, alive: SimulatedPlayer[], now: number): void {
+    if (!body.input.ability) return;
+    body.input.ability = false;
+
+    if (now < body.abilityReadyAt) return;
+    body.abilityReadyAt = now + ABILITY_COOLDOWN;
+
+    alive.forEach(other => {
+      if (other === body) return;
+
+      const dx = other.state.x - body.state.x;
+      const dy = other.state.y - body.state.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance > ABILITY_RANGE + other.state.radius) return;
+
+      const nx = distance > 0 ? dx / distance : 1;
+      const ny = distance > 0 ? dy / distance : 0;
+      other.state.vx += nx * ABILITY_KNOCKBACK;
+      other.state.vy += ny * ABILITY_KNOCKBACK;
+      this.applyDamage(other, ABILITY_DAMAGE, now, body.state.id, 'ability');
+    });
+  }
+
+  private resolveCollisions(alive: SimulatedPlayer[], now: number): void {
+    for (let i = 0; i < alive.length; i++) {
+      for (let j = i + 1; j < alive.length; j++) {
+        const a = alive[i].state;
+        const b = alive[j].state;
+
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const distance = Math.hypot(dx, dy);
+        const minDistance = a.radius + b.radius;
+        if (distance >= minDistance) continue;
+
+        const nx = distance > 0 ? dx / distance : 1;
+        const ny = distance > 0 ? dy / distance : 0;
+
+        // Push the bodies apart so they no longer overlap
+        const overlap = (minDistance - distance) / 2;
+        a.x -= nx * overlap;
+        a.y -= ny * overlap;
+        b.x += nx * overlap;
+        b.y += ny * overlap;
+
+        const aTowardB = a.vx * nx + a.vy * ny;
+        const bTowardA = -(b.vx * nx + b.vy * ny);
+        if (aTowardB + bTowardA <= 0) continue;
+
+        // Each body takes damage from how hard the other one drove into it
+        this.applyDamage(alive[j], Math.max(0, aTowardB) * COLLISION_DAMAGE_FACTOR, now, a.id, 'collision');
+        this.applyDamage(alive[i], Math.max(0, bTowardA) * COLLISION_DAMAGE_FACTOR, now, b.id, 'collision');
+
+        // Equal-mass elastic exchange along the collision normal
+        const exchange = aTowardB + bTowardA;
+        a.vx -= nx * exchange;
+        a.vy -= ny * exchange;
+        b.vx += nx * exchange;
+        b.vy += ny * exchange;
+      }
+    }
+  }
+
+  private updatePowerUps(alive: SimulatedPlayer[], now: number): void {
+    if (now >= this.nextPowerUpAt) {
+      this.nextPowerUpAt = now + POWERUP_INTERVAL;
+      if (this.powerUps.length < MAX_POWERUPS) {
+        this.powerUps.push({
+          id: this.nextPowerUpId++,
+          kind: Math.random() < 0.5 ? 'shield' : 'speed',
+          x: POWERUP_RADIUS + Math.random() * (ARENA_WIDTH - POWERUP_RADIUS * 2),
+          y: POWERUP_RADIUS + Math.random() * (ARENA_HEIGHT - POWERUP_RADIUS * 2)
+        });
+      }
+    }
+
+    this.powerUps = this.powerUps.filter(powerUp => {
+      const collector = alive.find(b =>
+        Math.hypot(b.state.x - powerUp.x, b.state.y - powerUp.y) < b.state.radius + POWERUP_RADIUS
+      );
+      if (!collector) return true;
+
+      if (powerUp.kind === 'shield') {
+        collector.shieldUntil = now + POWERUP_DURATION;
+      } else {
+        collector.speedUntil = now + POWERUP_DURATION;
+      }
+      return false;
+    });
+  }
+
+  private updateZone(now: number): void {
+    const startRadius = Math.hypot(ARENA_WIDTH, ARENA_HEIGHT) / 2;
+    const progress = Math.min(1, Math.max(0, (now - this.startedAt - ZONE_SHRINK_DELAY) / ZONE_SHRINK_DURATION));
+    this.zone.radius = startRadius - (startRadius - ZONE_MIN_RADIUS) * progress;
+  }
+
+  private applyZoneDamage(alive: SimulatedPlayer[], dt: number, now: number): void {
+    alive.forEach(body => {
+      const distance = Math.hypot(body.state.x - this.zone.x, body.state.y - this.zone.y);
+      if (distance > this.zone.radius) {
+        // Shields do not protect against the zone, otherwise a match could stall forever
+        this.applyDamage(body, ZONE_DAMAGE_PER_SECOND * dt, now, null, 'zone', true);
+      }
+    });
+  }
+
+  private applyDamage(
+    body: SimulatedPlayer,
+    amount: number,
+    now: number,
+    by: string | null,
+    reason: EliminationReason,
+    ignoreShield: boolean = false
+  ): void {
+    if (amount <= 0 || (!ignoreShield && body.shieldUntil > now)) return;
+    body.state.hp = Math.max(0, body.state.hp - amount);
+    body.lastHit = { by, reason };
+  }
+
+  private kill(body: SimulatedPlayer): void {
+    body.state.hp = 0;
+    body.state.alive = false;
+    body.state.vx = 0;
+    body.state.vy = 0;
+    body.input = { ...body.input, dx: 0, dy: 0, boost: false, ability: false };
+  }
+}
+
+// ============================================================================
+// RESULT SIGNING
+// ============================================================================
+
+class ResultSigner {
+  private log = new Logger('ResultSigner');
+  private privateKey: KeyObject;
+  readonly publicKey: string;
+
+  constructor(privateKeyPem?: string) {
+    if (privateKeyPem) {
+      this.privateKey = createPrivateKey(privateKeyPem);
+    } else {
+      this.privateKey = generateKeyPairSync('ed25519').privateKey;
+      this.log.warn('RESULT_SIGNING_KEY not set, using an ephemeral key');
+    }
+
+    const jwk = createPublicKey(this.privateKey).export({ format: 'jwk' });
+    this.publicKey = Buffer.from(jwk.x as string, 'base64url').toString('base64');
+    this.log.info('Signing results', { publicKey: this.publicKey });
+  }
+
+  signGameResult(result: Omit<GameResult, 'resultHash' | 'signature' | 'signerPublicKey'>): GameResult {
+    // Field order is fixed here so verifiers can rebuild the exact signed payload
+    const payload = JSON.stringify({
+      gameId: result.gameId,
+      winnerId: result.winnerId,
+      placements: result.placements.map(p => ({
+        playerId: p.playerId,
+        placement: p.placement,
+        reason: p.reason,
+        eliminatedBy: p.eliminatedBy,
+        eliminatedAt: p.eliminatedAt
+      })),
+      startTime: result.startTime,
+      endTime: result.endTime
+    });
+
+    return {
+      ...result,
+      resultHash: createHash('sha256').update(payload).digest('hex'),
+      signature: sign(null, Buffer.from(payload), this.privateKey).toString('base64'),
+      signerPublicKey: this.publicKey
+    };
+  }
+}
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+const AUDIT_LOG_SIZE = 500;
+
+interface AuditEntry {
+  at: number;
+  action: string;
+  actor: string;
+  target: string;
+  outcome: 'rejected' | 'applied';
+  reason: string;
+}
+
+// Privileged actions and refused attempts, kept in a bounded in-memory ring for operators
+class AuditLog {
+  private log = new Logger('Audit');
+  private entries: AuditEntry[] = [];
+
+  record(entry: Omit<AuditEntry, 'at'>): void {
+    const stamped = { at: Date.now(), ...entry };
+    this.entries.push(stamped);
+    if (this.entries.length > AUDIT_LOG_SIZE) {
+      this.entries.shift();
+    }
+
+    this.log.warn(`${entry.action} ${entry.outcome}`, { ...entry });
+  }
+
+  recent(limit: number = 100): AuditEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+interface GameRecord {
+  gameId: number;
+  phase: GameSession['phase'];
+  rules?: GameRules;
+  countdownStartTime: number | null;
+  countdownDuration: number;
+  members: string[];
+  kicked?: string[];
+  readyPlayers: string[];
+  hostId?: string | null;
+  deadline?: number | null;
+  refunds?: string[];
+  startTime: number | null;
+  winner: string | null;
+  eliminations: Placement[];
+  result: GameResult | null;
+  updatedAt: number;
+}
+
+interface BattleRecord {
+  challengeId: string;
+  players: string[];
+  status: BattleSession['status'];
+  winner: string | null;
+  createdAt: number;
+  ruleset: string;
+  currentRound: number;
+  scores: Record<string, number>;
+  moves: BattleMove[];
+  roundResults: RoundResult[];
+  roundTimeRemaining: number | null;
+  consecutiveTimeouts: Record<string, number>;
+  allowedPlayers?: string[] | null;
+  stakeTier?: string | null;
+  updatedAt: number;
+}
+
+// Writes are synchronous and happen on lifecycle events only, never per simulation tick
+interface GameStore {
+  saveGame(record: GameRecord): void;
+  deleteGame(gameId: number): void;
+  loadGame(gameId: number): GameRecord | null;
+  loadGames(): GameRecord[];
+  saveBattle(record: BattleRecord): void;
+  deleteBattle(challengeId: string): void;
+  loadBattle(challengeId: string): BattleRecord | null;
+  loadBattles(): BattleRecord[];
+  appendReplay(key: string, events: ReplayEvent[]): void;
+  loadReplay(key: string): ReplayEvent[] | null;
+  // The raw JSON lines, for callers that should not hold a whole replay in memory
+  openReplay(key: string): Readable | null;
+  saveRatings(ratings: PlayerRating[]): void;
+  loadRatings(): PlayerRating[];
+  saveSettlement(settlement: Settlement): void;
+  loadSettlements(): Settlement[];
+}
+
+class FileGameStore implements GameStore {
+  private log = new Logger('FileGameStore');
+  private gamesDir: string;
+  private battlesDir: string;
+  private replaysDir: string;
+  private settlementsDir: string;
+  private ratingsPath: string;
+
+  constructor(dataDir: string) {
+    this.gamesDir = join(dataDir, 'games');
+    this.battlesDir = join(dataDir, 'battles');
+    this.replaysDir = join(dataDir, 'replays');
+    this.settlementsDir = join(dataDir, 'settlements');
+    this.ratingsPath = join(dataDir, 'ratings.json');
+    mkdirSync(this.gamesDir, { recursive: true });
+    mkdirSync(this.battlesDir, { recursive: true });
+    mkdirSync(this.replaysDir, { recursive: true });
+    mkdirSync(this.settlementsDir, { recursive: true });
+    this.log.info('Persisting sessions', { dataDir });
+  }
+
+  saveGame(record: GameRecord): void {
+    this.write(join(this.gamesDir, `${record.gameId}.json`), record);
+  }
+
+  deleteGame(gameId: number): void {
+    this.remove(join(this.gamesDir, `${gameId}.json`));
+  }
+
+  loadGame(gameId: number): GameRecord | null {
+    return this.read(join(this.gamesDir, `${gameId}.json`));
+  }
+
+  loadGames(): GameRecord[] {
+    return this.readAll<GameRecord>(this.gamesDir);
+  }
+
+  saveBattle(record: BattleRecord): void {
+    this.write(join(this.battlesDir, `${encodeURIComponent(record.challengeId)}.json`), record);
+  }
+
+  deleteBattle(challengeId: string): void {
+    this.remove(join(this.battlesDir, `${encodeURIComponent(challengeId)}.json`));
+  }
+
+  loadBattle(challengeId: string): BattleRecord | null {
+    return this.read(join(this.battlesDir, `${encodeURIComponent(challengeId)}.json`));
+  }
+
+  loadBattles(): BattleRecord[] {
+    return this.readAll<BattleRecord>(this.battlesDir);
+  }
+
+  // Replays are JSON lines, appended as the match runs
+  appendReplay(key: string, events: ReplayEvent[]): void {
+    const path = join(this.replaysDir, `${key}.jsonl`);
+    try {
+      appendFileSync(path, events.map(event => JSON.stringify(event)).join('\n') + '\n');
+    } catch (error) {
+      this.log.error('Failed to append', { path, error });
+    }
+  }
+
+  loadReplay(key: string): ReplayEvent[] | null {
+    const path = join(this.replaysDir, `${key}.jsonl`);
+    if (!existsSync(path)) return null;
+
+    const events: ReplayEvent[] = [];
+    readFileSync(path, 'utf8').split('\n').forEach(line => {
+      if (!line) return;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A crash mid-append can leave one torn line at the end; everything before it is still good
+      }
+    });
+    return events;
+  }
+
+  openReplay(key: string): Readable | null {
+    const path = join(this.replaysDir, `${key}.jsonl`);
+    return existsSync(path) ? createReadStream(path, 'utf8') : null;
+  }
+
+  saveRatings(ratings: PlayerRating[]): void {
+    this.write(this.ratingsPath, ratings);
+  }
+
+  loadRatings(): PlayerRating[] {
+    return this.read<PlayerRating[]>(this.ratingsPath) ?? [];
+  }
+
+  saveSettlement(settlement: Settlement): void {
+    this.write(join(this.settlementsDir, `${settlement.record.key}.json`), settlement);
+  }
+
+  loadSettlements(): Settlement[] {
+    return this.readAll<Settlement>(this.settlementsDir);
+  }
+
+  // Write to a temp file and rename so a crash mid-write never leaves a truncated record
+  private write(path: string, record: object): void {
+    try {
+      writeFileSync(`${path}.tmp`, JSON.stringify(record));
+      renameSync(`${path}.tmp`, path);
+    } catch (error) {
+      this.log.error('Failed to write', { path, error });
+    }
+  }
+
+  private remove(path: string): void {
+    try {
+      if (existsSync(path)) unlinkSync(path);
+    } catch (error) {
+      this.log.error('Failed to delete', { path, error });
+    }
+  }
+
+  private read<T>(path: string): T | null {
+    if (!existsSync(path)) return null;
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf8')) as T;
+    } catch (error) {
+      this.log.error('Failed to read', { path, error });
+      return null;
+    }
+  }
+
+  private readAll<T>(dir: string): T[] {
+    return readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.read<T>(join(dir, file)))
+      .filter(record => record !== null) as T[];
+  }
+}
+
+// ============================================================================
+// REPLAYS
+// ============================================================================
+
+const REPLAY_FLUSH_INTERVAL = 1000;
+const REPLAY_SPEEDS = [1, 2];
+// Full snapshots per second kept in a replay; the simulation produces TICK_RATE of them
+const REPLAY_SNAPSHOT_RATE = 4;
+
+type ReplayKind = 'game' | 'battle';
+
+interface ReplayEvent {
+  at: number;
+  direction: 'in' | 'out';
+  // null for messages broadcast to the whole match
+  playerId: string | null;
+  message: ServerMessage | Phase3ClientMessage | BattleClientMessage;
+}
+
+// Buffers events in memory and appends them to the store once a second, so a busy tick loop never waits on disk
+class ReplayRecorder {
+  private pending: Map<string, ReplayEvent[]> = new Map();
+
+  constructor(private store: GameStore) { }
+
+  record(kind: ReplayKind, id: string, direction: ReplayEvent['direction'], playerId: string | null, message: ReplayEvent['message']): void {
+    if (message.type === 'sync' && message.tick !== undefined && message.tick % (TICK_RATE / REPLAY_SNAPSHOT_RATE) !== 0) return;
+
+    const key = this.key(kind, id);
+    if (!this.pending.has(key)) {
+      this.pending.set(key, []);
+    }
+    this.pending.get(key)!.push({ at: Date.now(), direction, playerId, message });
+  }
+
+  // Live matches stay private so a replay cannot be used to scout an opponent mid-game
+  loadFinished(kind: ReplayKind, id: string): ReplayEvent[] | 'in_progress' | null {
+    const key = this.finishedKey(kind, id);
+    return key === null ? 'in_progress' : this.store.loadReplay(key);
+  }
+
+  openFinished(kind: ReplayKind, id: string): Readable | 'in_progress' | null {
+    const key = this.finishedKey(kind, id);
+    return key === null ? 'in_progress' : this.store.openReplay(key);
+  }
+
+  startFlushTimer(): void {
+    setInterval(() => {
+      Array.from(this.pending.keys()).forEach(key => this.flushKey(key));
+    }, REPLAY_FLUSH_INTERVAL);
+  }
+
+  // Flushes the match's pending events and returns its key, or null while it is still being played
+  private finishedKey(kind: ReplayKind, id: string): string | null {
+    const record = kind === 'game' ? this.store.loadGame(parseInt(id)) : this.store.loadBattle(id);
+    if (record && ('phase' in record ? record.phase : record.status) !== 'ended') {
+      return null;
+    }
+
+    const key = this.key(kind, id);
+    this.flushKey(key);
+    return key;
+  }
+
+  private flushKey(key: string): void {
+    const events = this.pending.get(key);
+    if (!events || events.length === 0) return;
+
+    this.pending.delete(key);
+    this.store.appendReplay(key, events);
+  }
+
+  private key(kind: ReplayKind, id: string): string {
+    return `${kind}-${encodeURIComponent(id)}`;
+  }
+}
+
+// ============================================================================
+// RATINGS
+// ============================================================================
+
+const DEFAULT_RATING = 1200;
+const RATING_K_FACTOR = 32;
+// New players move faster until their rating has settled
+const PROVISIONAL_K_FACTOR = 48;
+const PROVISIONAL_GAMES = 10;
+const DEFAULT_LEADERBOARD_SIZE = 50;
+const MAX_LEADERBOARD_SIZE = 200;
+// Battles that never really happened do not touch anyone's rating
+const UNRATED_BATTLE_REASONS = ['cancelled', 'no_show'];
+
+interface PlayerRating {
+  playerId: string;
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  // Start of the UTC week the weekly fields belong to
+  weekStart: number;
+  weeklyChange: number;
+  weeklyGames: number;
+  updatedAt: number;
+}
+
+interface RatingUpdate {
+  playerId: string;
+  previousRating: number;
+  rating: number;
+  change: number;
+}
+
+type LeaderboardPeriod = 'global' | 'weekly';
+
+function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+// Weeks run Monday to Sunday, UTC
+function startOfWeek(time: number): number {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  return date.getTime();
+}
+
+// Elo over every finished match; a free-for-all counts as a head-to-head against each other finisher
+class RatingBook {
+  private log = new Logger('RatingBook');
+  private ratings: Map<string, PlayerRating> = new Map();
+
+  constructor(private store: GameStore) {
+    store.loadRatings().forEach(rating => this.ratings.set(rating.playerId, rating));
+    this.log.info('Loaded player ratings', { players: this.ratings.size });
+  }
+
+  getRating(playerId: string): PlayerRating {
+    return this.ratings.get(playerId) ?? this.blank(playerId);
+  }
+
+  recordBattle(players: [string, string], winner: string | null): RatingUpdate[] {
+    const [first, second] = players.map(playerId => this.getRating(playerId));
+    const score = winner === first.playerId ? 1 : winner === second.playerId ? 0 : 0.5;
+
+    return this.apply([
+      { player: first, change: this.kFactor(first) * (score - expectedScore(first.rating, second.rating)), score },
+      { player: second, change: this.kFactor(second) * ((1 - score) - expectedScore(second.rating, first.rating)), score: 1 - score }
+    ]);
+  }
+
+  // Players in finishing order, winner first
+  recordPlacements(playerIds: string[]): RatingUpdate[] {
+    if (playerIds.length < 2) return [];
+
+    const players = playerIds.map(playerId => this.getRating(playerId));
+    const opponents = players.length - 1;
+
+    return this.apply(players.map((player, rank) => {
+      let change = 0;
+      players.forEach((opponent, opponentRank) => {
+        if (opponent === player) return;
+        const score = rank < opponentRank ? 1 : 0;
+        change += (this.kFactor(player) / opponents) * (score - expectedScore(player.rating, opponent.rating));
+      });
+      return { player, change, score: rank === 0 ? 1 : 0 };
+    }));
+  }
+
+  getLeaderboard(period: LeaderboardPeriod, limit: number): (PlayerRating & { rank: number })[] {
+    const weekStart = startOfWeek(Date.now());
+    const entries = Array.from(this.ratings.values());
+
+    const ranked = period === 'global'
+      ? entries.sort((a, b) => b.rating - a.rating)
+      : entries
+        .filter(entry => entry.weekStart === weekStart && entry.weeklyGames > 0)
+        .sort((a, b) => b.weeklyChange - a.weeklyChange || b.rating - a.rating);
+
+    return ranked.slice(0, limit).map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  // Changes are computed from pre-match ratings for everyone before any of them is applied
+  private apply(results: { player: PlayerRating; change: number; score: number }[]): RatingUpdate[] {
+    const now = Date.now();
+    const weekStart = startOfWeek(now);
+
+    const updates = results.map(({ player, change, score }) => {
+      const delta = Math.round(change);
+      const updated: PlayerRating = {
+        ...player,
+        rating: player.rating + delta,
+        games: player.games + 1,
+        wins: player.wins + (score === 1 ? 1 : 0),
+        losses: player.losses + (score === 0 ? 1 : 0),
+        draws: player.draws + (score === 0.5 ? 1 : 0),
+        weekStart,
+        weeklyChange: (player.weekStart === weekStart ? player.weeklyChange : 0) + delta,
+        weeklyGames: (player.weekStart === weekStart ? player.weeklyGames : 0) + 1,
+        updatedAt: now
+      };
+      this.ratings.set(player.playerId, updated);
+
+      return { playerId: player.playerId, previousRating: player.rating, rating: updated.rating, change: delta };
+    });
+
+    this.store.saveRatings(Array.from(this.ratings.values()));
+    this.log.info('Ratings updated', { changes: Object.fromEntries(updates.map(u => [u.playerId, u.change])) });
+
+    return updates;
+  }
+
+  private kFactor(player: PlayerRating): number {
+    return player.games < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : RATING_K_FACTOR;
+  }
+
+  private blank(playerId: string): PlayerRating {
+    return {
+      playerId,
+      rating: DEFAULT_RATING,
+      games: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      weekStart: 0,
+      weeklyChange: 0,
+      weeklyGames: 0,
+      updatedAt: 0
+    };
+  }
+}
+
+// ============================================================================
+// SETTLEMENT
+// ============================================================================
+
+const SETTLEMENT_RETRY_BASE = 2000;
+const SETTLEMENT_RETRY_MAX = 60000;
+const SETTLEMENT_MAX_ATTEMPTS = 10;
+const SETTLEMENT_REQUEST_TIMEOUT = 15000;
+
+interface SettlementRecord {
+  // Doubles as the idempotency key: the payout program must treat a repeated key as already settled
+  key: string;
+  kind: ReplayKind;
+  matchId: string;
+  outcome: 'payout' | 'refund';
+  winner: string | null;
+  placements: Placement[];
+  participants: string[];
+  refunds: string[];
+  resultHash: string;
+  endedAt: number;
+}
+
+interface Settlement {
+  record: SettlementRecord;
+  status: 'pending' | 'confirmed' | 'failed';
+  attempts: number;
+  txSignature: string | null;
+  lastError: string | null;
+  updatedAt: number;
+}
+
+type SettlementResult = { ok: true; txSignature: string } | { ok: false; error: string };
+
+interface SettlementAdapter {
+  readonly name: string;
+  settle(record: SettlementRecord, done: (result: SettlementResult) => void): void;
+}
+
+function settlementKey(kind: ReplayKind, matchId: string): string {
+  return `${kind}-${encodeURIComponent(matchId)}`;
+}
+
+// Cancelled matches have no signed result, so their record is hashed from its own contents instead
+function buildSettlementRecord(
+  kind: ReplayKind,
+  matchId: string,
+  outcome: Pick<SettlementRecord, 'winner' | 'placements' | 'participants' | 'refunds'> & { resultHash: string | null }
+): SettlementRecord {
+  const { winner, placements, participants, refunds } = outcome;
+  return {
+    key: settlementKey(kind, matchId),
+    kind,
+    matchId,
+    outcome: winner ? 'payout' : 'refund',
+    winner,
+    placements,
+    participants,
+    refunds,
+    resultHash: outcome.resultHash
+      ?? createHash('sha256').update(JSON.stringify({ kind, matchId, winner, participants, refunds })).digest('hex'),
+    endedAt: Date.now()
+  };
+}
+
+function toSettlementView(settlement: Settlement): SettlementView {
+  return {
+    kind: settlement.record.kind,
+    matchId: settlement.record.matchId,
+    outcome: settlement.record.outcome,
+    status: settlement.status,
+    attempts: settlement.attempts,
+    txSignature: settlement.txSignature,
+    error: settlement.lastError
+  };
+}
+
+// Stands in for the payout program locally; failureRate exercises the retry path
+class MockSettlementAdapter implements SettlementAdapter {
+  readonly name = 'mock';
+  private settled: Map<string, string> = new Map();
+
+  constructor(private failureRate: number = 0) { }
+
+  settle(record: SettlementRecord, done: (result: SettlementResult) => void): void {
+    setTimeout(() => {
+      if (Math.random() < this.failureRate) {
+        done({ ok: false, error: 'Mock payout failure' });
+        return;
+      }
+
+      // A repeated key gets the original signature back, just like the real program
+      if (!this.settled.has(record.key)) {
+        this.settled.set(record.key, randomBytes(32).toString('hex'));
+      }
+      done({ ok: true, txSignature: this.settled.get(record.key)! });
+    }, 50);
+  }
+}
+
+// Posts the record to the payout service that builds and sends the program instruction
+class HttpSettlementAdapter implements SettlementAdapter {
+  readonly name = 'http';
+
+  constructor(private url: string, private token?: string) { }
+
+  settle(record: SettlementRecord, done: (result: SettlementResult) => void): void {
+    fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': record.key,
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+      },
+      body: JSON.stringify(record),
+      signal: AbortSignal.timeout(SETTLEMENT_REQUEST_TIMEOUT)
+    })
+      .then(async response => {
+        const parsed: unknown = await response.json().catch(() => ({}));
+        const body = isJsonObject(parsed) ? parsed : {};
+        if (response.ok && typeof body.txSignature === 'string') {
+          done({ ok: true, txSignature: body.txSignature });
+        } else {
+          done({ ok: false, error: typeof body.error === 'string' ? body.error : `HTTP ${response.status}` });
+        }
+      })
+      .catch(error => done({ ok: false, error: error.message }));
+  }
+}
+
+// Every final result is persisted before it is submitted, and retried with backoff until the adapter confirms it
+class SettlementQueue {
+  private log = new Logger('SettlementQueue');
+  private settlements: Map<string, Settlement> = new Map();
+  private inFlight: Set<string> = new Set();
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private onStatus?: (settlement: Settlement) => void;
+
+  constructor(private adapter: SettlementAdapter, private store: GameStore) { }
+
+  setStatusCallback(callback: (settlement: Settlement) => void) {
+    this.onStatus = callback;
+  }
+
+  getTimerCounts(): Record<string, number> {
+    return { retry: this.retryTimers.size };
+  }
+
+  // Anything not confirmed before a restart is submitted again under the same key
+  restore(): void {
+    this.store.loadSettlements().forEach(settlement => {
+      this.settlements.set(settlement.record.key, settlement);
+      if (settlement.status === 'pending') {
+        this.attempt(settlement.record.key);
+      }
+    });
+    this.log.info('Settlement queue restored', { adapter: this.adapter.name, settlements: this.settlements.size });
+  }
+
+  submit(record: SettlementRecord): void {
+    if (this.settlements.has(record.key)) {
+      this.log.warn('Ignoring duplicate settlement', { key: record.key });
+      return;
+    }
+
+    const settlement: Settlement = {
+      record,
+      status: 'pending',
+      attempts: 0,
+      txSignature: null,
+      lastError: null,
+      updatedAt: Date.now()
+    };
+    this.settlements.set(record.key, settlement);
+    this.update(settlement);
+    this.attempt(record.key);
+  }
+
+  get(kind: ReplayKind, matchId: string): Settlement | undefined {
+    return this.settlements.get(settlementKey(kind, matchId));
+  }
+
+  // Operators can push a settlement that ran out of attempts back into the queue
+  retry(key: string): boolean {
+    const settlement = this.settlements.get(key);
+    if (!settlement || settlement.status !== 'failed') return false;
+
+    settlement.status = 'pending';
+    settlement.attempts = 0;
+    this.update(settlement);
+    this.attempt(settlement.record.key);
+    return true;
+  }
+
+  private attempt(key: string): void {
+    const settlement = this.settlements.get(key);
+    if (!settlement || settlement.status !== 'pending' || this.inFlight.has(key)) return;
+
+    this.inFlight.add(key);
+    settlement.attempts++;
+    this.store.saveSettlement(settlement);
+
+    this.adapter.settle(settlement.record, result => {
+      this.inFlight.delete(key);
+
+      if (result.ok) {
+        settlement.status = 'confirmed';
+        settlement.txSignature = result.txSignature;
+        settlement.lastError = null;
+        this.log.info('Settled', { key, txSignature: result.txSignature, attempts: settlement.attempts });
+      } else {
+        settlement.lastError = result.error;
+        if (settlement.attempts >= SETTLEMENT_MAX_ATTEMPTS) {
+          settlement.status = 'failed';
+          this.log.error('Giving up on settlement', { key, attempts: settlement.attempts, error: result.error });
+        } else {
+          const delay = Math.min(SETTLEMENT_RETRY_MAX, SETTLEMENT_RETRY_BASE * 2 ** (settlement.attempts - 1));
+          this.log.warn('Settlement attempt failed', { key, attempts: settlement.attempts, error: result.error, retryIn: delay });
+          this.retryTimers.set(key, setTimeout(() => {
+            this.retryTimers.delete(key);
+            this.attempt(key);
+          }, delay));
+        }
+      }
+
+      this.update(settlement);
+    });
+  }
+
+  private update(settlement: Settlement): void {
+    settlement.updatedAt = Date.now();
+    this.store.saveSettlement(settlement);
+
+    if (this.onStatus) {
+      this.onStatus(settlement);
+    }
+  }
+}
+
+// ============================================================================
+// PHASE 3 GAME MANAGER
+// ============================================================================
+
+const DEFAULT_GAME_RULES: GameRules = {
+  minPlayers: 2,
+  maxPlayers: 100,
+  countdownDuration: 15000,
+  soloWinner: false,
+  maxDuration: null,
+  autoStartDelay: 1000,
+  unreadyPolicy: 'refund'
+};
+
+const UNREADY_POLICIES: GameRules['unreadyPolicy'][] = ['kick', 'refund'];
+
+// Inclusive bounds for every numeric rule
+const GAME_RULE_BOUNDS: Record<Exclude<keyof GameRules, 'soloWinner' | 'unreadyPolicy'>, [number, number]> = {
+  minPlayers: [1, 1000],
+  maxPlayers: [1, 1000],
+  countdownDuration: [0, 10 * 60 * 1000],
+  maxDuration: [10000, 24 * 60 * 60 * 1000],
+  autoStartDelay: [0, 60000]
+};
+
+type RulesResult = { ok: true; rules: GameRules } | { ok: false; errors: string[] };
+
+// Applies overrides on top of base; unknown keys and out-of-range values are errors, not silently dropped
+function resolveGameRules(overrides: unknown, base: GameRules): RulesResult {
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    return { ok: false, errors: ['rules must be an object'] };
+  }
+
+  const rules: GameRules = { ...base };
+  const errors: string[] = [];
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (key === 'soloWinner') {
+      if (typeof value === 'boolean') rules.soloWinner = value;
+      else errors.push('soloWinner must be a boolean');
+      return;
+    }
+    if (key === 'unreadyPolicy') {
+      if (UNREADY_POLICIES.includes(value)) rules.unreadyPolicy = value;
+      else errors.push(`unreadyPolicy must be one of ${UNREADY_POLICIES.join(', ')}`);
+      return;
+    }
+    if (!(key in GAME_RULE_BOUNDS)) {
+      errors.push(`unknown rule: ${key}`);
+      return;
+    }
+    if (key === 'maxDuration' && value === null) {
+      rules.maxDuration = null;
+      return;
+    }
+
+    const [min, max] = GAME_RULE_BOUNDS[key as keyof typeof GAME_RULE_BOUNDS];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${key} must be an integer between ${min} and ${max}`);
+      return;
+    }
+    Object.assign(rules, { [key]: value });
+  });
+
+  if (rules.minPlayers > rules.maxPlayers) {
+    errors.push('minPlayers cannot exceed maxPlayers');
+  }
+  // A one-player game can only end in a solo win, so it has to be allowed explicitly
+  if (rules.minPlayers < 2 && !rules.soloWinner) {
+    errors.push('minPlayers below 2 requires soloWinner');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, rules };
+}
+
+const MIN_DEADLINE_LEAD = 5000;
+const MAX_DEADLINE_LEAD = 30 * 60 * 1000;
+const COUNTDOWN_TICK_INTERVAL = 1000;
+
+class GameManager {
+  private log = new Logger('GameManager');
+  private games: Map<number, GameSession> = new Map();
+  private gameTimers: Map<number, NodeJS.Timeout> = new Map();
+  private countdownTickers: Map<number, NodeJS.Timeout> = new Map();
+  private simulations: Map<number, GameSimulation> = new Map();
+  private simulationTimers: Map<number, NodeJS.Timeout> = new Map();
+  private onGameStateChange?: (gameId: number) => void;
+  private onSnapshot?: (gameId: number, snapshot: SimulationSnapshot) => void;
+  private onElimination?: (gameId: number, placement: Placement) => void;
+  private onGameEnded?: (gameId: number, result: GameResult) => void;
+  private onGameCancelled?: (gameId: number, reason: string) => void;
+  private onLobbyCancelled?: (gameId: number, reason: string, refunds: string[]) => void;
+  private onPhaseChanged?: (gameId: number, phase: GameSession['phase'], previous: GameSession['phase']) => void;
+  private onCountdownTick?: (gameId: number, remaining: number, endsAt: number) => void;
+
+  constructor(
+    private resultSigner: ResultSigner,
+    private store: GameStore,
+    private defaultRules: GameRules = DEFAULT_GAME_RULES
+  ) { }
+
+  setGameStateChangeCallback(callback: (gameId: number) => void) {
+    this.onGameStateChange = callback;
+  }
+
+  setSnapshotCallback(callback: (gameId: number, snapshot: SimulationSnapshot) => void) {
+    this.onSnapshot = callback;
+  }
+
+  setEliminationCallback(callback: (gameId: number, placement: Placement) => void) {
+    this.onElimination = callback;
+  }
+
+  setGameEndedCallback(callback: (gameId: number, result: GameResult) => void) {
+    this.onGameEnded = callback;
+  }
+
+  setGameCancelledCallback(callback: (gameId: number, reason: string) => void) {
+    this.onGameCancelled = callback;
+  }
+
+  setLobbyCancelledCallback(callback: (gameId: number, reason: string, refunds: string[]) => void) {
+    this.onLobbyCancelled = callback;
+  }
+
+  setPhaseChangedCallback(callback: (gameId: number, phase: GameSession['phase'], previous: GameSession['phase']) => void) {
+    this.onPhaseChanged = callback;
+  }
+
+  setCountdownTickCallback(callback: (gameId: number, remaining: number, endsAt: number) => void) {
+    this.onCountdownTick = callback;
+  }
+
+  getOrCreateGame(gameId: number): GameSession {
+    if (!this.games.has(gameId)) {
+      // A finished game keeps its result: late joiners see it instead of a fresh lobby
+      const record = this.store.loadGame(gameId);
+      if (record && record.phase === 'ended') {
+        this.games.set(gameId, this.hydrate(record));
+        return this.games.get(gameId)!;
+      }
+
+      this.games.set(gameId, {
+        gameId,
+        phase: 'waiting',
+        rules: { ...this.defaultRules },
+        countdownStartTime: null,
+        countdownDuration: this.defaultRules.countdownDuration,
+        players: new Map(),
+        members: new Set(),
+        disconnected: new Set(),
+        kicked: new Set(),
+        readyPlayers: new Set(),
+        hostId: null,
+        deadline: null,
+        refunds: [],
+        startTime: null,
+        winner: null,
+        eliminations: [],
+        result: null
+      });
+      this.log.info('Created game session', { gameId });
+      this.persist(this.games.get(gameId)!);
+    }
+    return this.games.get(gameId)!;
+  }
+
+  // Rehydrates every unfinished game from storage and resumes its timers; returns the recovered sessions
+  // Positions and health are not persisted, so a game that was mid-fight is cancelled and refunded instead
+  restore(): GameSession[] {
+    const restored: GameSession[] = [];
+
+    this.store.loadGames()
+      .filter(record => record.phase !== 'ended')
+      .forEach(record => {
+        const game = this.hydrate(record);
+        game.members.forEach(playerId => game.disconnected.add(playerId));
+        this.games.set(game.gameId, game);
+
+        if (game.phase === 'active') {
+          this.cancelGame(game, 'server_restart');
+          return;
+        }
+
+        if (game.phase === 'countdown') {
+          const remaining = Math.max(0, game.countdownStartTime! + game.countdownDuration - Date.now());
+          this.gameTimers.set(game.gameId, setTimeout(() => {
+            this.transitionToActive(game.gameId);
+          }, remaining));
+          this.startCountdownTicks(game);
+        }
+
+        this.log.info('Restored game', { gameId: game.gameId, phase: game.phase, players: game.members.size });
+        restored.push(game);
+      });
+
+    return restored;
+  }
+
+  addPlayer(gameId: number, playerId: string): void {
+    const game = this.getOrCreateGame(gameId);
+
+    if (!game.members.has(playerId)) {
+      game.members.add(playerId);
+      this.log.info('Player joined', { gameId, playerId });
+
+      // The first player into a lobby hosts it
+      if (!game.hostId) {
+        game.hostId = playerId;
+        this.log.info('Player is host', { gameId, playerId });
+      }
+      this.persist(game);
+    }
+  }
+
+  // A disconnected player keeps their slot, ready flag and body until removePlayer is called
+  setPlayerConnected(gameId: number, playerId: string, connected: boolean): void {
+    const game = this.games.get(gameId);
+    if (!game) return;
+
+    if (connected) {
+      game.disconnected.delete(playerId);
+    } else {
+      game.disconnected.add(playerId);
+      this.simulations.get(gameId)?.clearInput(playerId);
+    }
+  }
+
+  removePlayer(gameId: number, playerId: string): void {
+    const game = this.games.get(gameId);
+    if (!game) return;
+
+    const simulation = this.simulations.get(gameId);
+    if (simulation) {
+      // Leaving a running match counts as an elimination, never as a way out of one
+      const event = simulation.forfeit(playerId);
+      if (event) {
+        this.recordEliminations(game, simulation, [event]);
+      }
+    }
+
+    game.players.delete(playerId);
+    game.members.delete(playerId);
+    game.disconnected.delete(playerId);
+    game.readyPlayers.delete(playerId);
+
+    this.log.info('Player left', { gameId, playerId });
+
+    const hostLeft = game.hostId === playerId;
+    if (hostLeft) {
+      // Hosting passes to the longest-standing member that is still here
+      game.hostId = game.members.values().next().value ?? null;
+      if (game.hostId) {
+        this.log.info('Host passed on', { gameId, playerId: game.hostId });
+      }
+    }
+
+    if (game.members.size === 0) {
+      this.clearGameTimer(gameId);
+      this.stopSimulation(gameId);
+      this.games.delete(gameId);
+      if (game.phase !== 'ended') {
+        this.store.deleteGame(gameId);
+      }
+      this.log.info('Game deleted with no players left', { gameId });
+    } else if (game.phase === 'countdown' && !this.checkReadyPlayers(game).canStart) {
+      // The leaver never got to play, so they are refunded along with everyone still here
+      game.refunds.push(playerId);
+      this.cancelLobby(gameId, 'not_enough_players');
+    } else {
+      this.persist(game);
+
+      if (hostLeft && this.onGameStateChange) {
+        this.onGameStateChange(gameId);
+      }
+    }
+  }
+
+  isHost(gameId: number, playerId: string): boolean {
+    return this.games.get(gameId)?.hostId === playerId;
+  }
+
+  // Deadlines must sit a sane distance in the future so nobody can force an instant or indefinite start
+  setDeadline(gameId: number, deadline: number): { success: boolean; message: string } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, message: 'Game not found' };
+    }
+
+    if (game.phase !== 'waiting') {
+      return { success: false, message: `Game already in phase: ${game.phase}` };
+    }
+
+    const lead = deadline - Date.now();
+    if (!isFinite(lead) || lead < MIN_DEADLINE_LEAD || lead > MAX_DEADLINE_LEAD) {
+      return {
+        success: false,
+        message: `Deadline must be between ${MIN_DEADLINE_LEAD / 1000}s and ${MAX_DEADLINE_LEAD / 60000}m from now`
+      };
+    }
+
+    game.deadline = deadline;
+    this.persist(game);
+
+    this.log.info('Deadline set', { gameId, deadline: new Date(deadline).toISOString() });
+
+    if (this.onGameStateChange) {
+      this.onGameStateChange(gameId);
+    }
+    return { success: true, message: 'Deadline set' };
+  }
+
+  applyPlayerInput(gameId: number, playerId: string, input: PlayerInput): boolean {
+    const simulation = this.simulations.get(gameId);
+    if (!simulation) return false;
+
+    return simulation.applyInput(playerId, input);
+  }
+
+  markPlayerReady(gameId: number, playerId: string): void {
+    const game = this.getOrCreateGame(gameId);
+    game.readyPlayers.add(playerId);
+
+    this.log.info('Player marked ready', { gameId, playerId, ready: game.readyPlayers.size, members: game.members.size });
+
+    this.persist(game);
+
+    if (this.onGameStateChange) {
+      this.onGameStateChange(gameId);
+    }
+  }
+
+  // Lobby rules can be swapped until the countdown starts
+  configureGame(gameId: number, rules: GameRules): { success: boolean; message: string } {
+    const game = this.getOrCreateGame(gameId);
+    if (game.phase !== 'waiting') {
+      return { success: false, message: `Rules cannot change in phase: ${game.phase}` };
+    }
+
+    game.rules = rules;
+    game.countdownDuration = rules.countdownDuration;
+    this.persist(game);
+
+    this.log.info('Game configured', { gameId, rules });
+
+    if (this.onGameStateChange) {
+      this.onGameStateChange(gameId);
+    }
+
+    return { success: true, message: 'Rules updated' };
+  }
+
+  canStartGame(gameId: number): { canStart: boolean; reason: string; readyCount: number } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { canStart: false, reason: 'Game not found', readyCount: 0 };
+    }
+
+    if (game.phase !== 'waiting') {
+      return { canStart: false, reason: `Game already in phase: ${game.phase}`, readyCount: game.readyPlayers.size };
+    }
+
+    return this.checkReadyPlayers(game);
+  }
+
+  // The same bar applies when a countdown starts and again when it ends, since ready players can leave in between
+  private checkReadyPlayers(game: GameSession): { canStart: boolean; reason: string; readyCount: number } {
+    const readyCount = game.readyPlayers.size;
+
+    if (readyCount === 0) {
+      return { canStart: false, reason: 'No players ready', readyCount: 0 };
+    }
+
+    if (readyCount === 1 && game.rules.soloWinner) {
+      return { canStart: true, reason: 'Auto-winner (1 player ready)', readyCount: 1 };
+    }
+
+    if (readyCount < game.rules.minPlayers) {
+      return { canStart: false, reason: `Need at least ${game.rules.minPlayers} ready players`, readyCount };
+    }
+
+    return { canStart: true, reason: `${readyCount} players ready for battle`, readyCount };
+  }
+
+  startGame(gameId: number): { success: boolean; message: string; gameState?: GameSession } {
+    const game = this.games.get(gameId);
+    if (!game) {
+      return { success: false, message: 'Game not found' };
+    }
+
+    const { canStart, reason, readyCount } = this.canStartGame(gameId);
+
+    if (!canStart) {
+      return { success: false, message: reason };
+    }
+
+    if (readyCount === 1 && game.rules.soloWinner) {
+      const winnerId = Array.from(game.readyPlayers)[0];
+      this.log.info('Auto-winner declared', { gameId, playerId: winnerId });
+      this.endGame(game, winnerId);
+      return { success: true, message: 'Auto-winner declared', gameState: game };
+    }
+
+    game.countdownStartTime = Date.now();
+    this.setPhase(game, 'countdown');
+
+    this.log.info('Countdown started', { gameId, players: readyCount, duration: game.countdownDuration });
+
+    const countdownTimer = setTimeout(() => {
+      this.transitionToActive(gameId);
+    }, game.countdownDuration);
+
+    this.gameTimers.set(gameId, countdownTimer);
+    this.startCountdownTicks(game);
+    this.persist(game);
+
+    return { success: true, message: 'Countdown started', gameState: game };
+  }
+
+  private transitionToActive(gameId: number): void {
+    const game = this.games.get(gameId);
+    if (!game) return;
+
+    this.gameTimers.delete(gameId);
+    this.stopCountdownTicks(gameId);
+
+    const { canStart, reason, readyCount } = this.checkReadyPlayers(game);
+    if (!canStart) {
+      this.log.info('Too few ready players left at the end of the countdown', { gameId, reason });
+      this.cancelLobby(gameId, 'not_enough_players');
+      return;
+    }
+
+    game.startTime = Date.now();
+    this.setPhase(game, 'active');
+
+    if (readyCount === 1 && game.rules.soloWinner) {
+      this.endGame(game, Array.from(game.readyPlayers)[0]);
+      return;
+    }
+
+    this.startSimulation(game, Array.from(game.readyPlayers));
+    this.startDurationLimit(game);
+    this.persist(game);
+
+    this.log.info('Game active', { gameId, players: game.readyPlayers.size });
+
+    if (this.onGameStateChange) {
+      this.onGameStateChange(gameId);
+    }
+  }
+
+  getGameState(gameId: number): GameSession | undefined {
+    return this.games.get(gameId);
+  }
+
+  getTimerCounts(): Record<string, number> {
+    return {
+      phase: this.gameTimers.size,
+      countdown_tick: this.countdownTickers.size,
+      simulation: this.simulationTimers.size
+    };
+  }
+
+  listGames(): GameSession[] {
+    return Array.from(this.games.values());
+  }
+
+  // Admin override: with a winner the game ends normally and gets a signed result, without one it is cancelled
+  forceEndGame(gameId: number, winnerId: string | null, reason: string): boolean {
+    const game = this.games.get(gameId);
+    if (!game || game.phase === 'ended') return false;
+
+    if (winnerId) {
+      if (!game.members.has(winnerId)) return false;
+      this.log.info('Game force-ended', { gameId, playerId: winnerId, reason });
+      this.endGame(game, winnerId);
+      return true;
+    }
+
+    this.cancelGame(game, reason);
+    return true;
+  }
+
+  private cancelGame(game: GameSession, reason: string): void {
+    this.setPhase(game, 'ended');
+    game.winner = null;
+    game.refunds = Array.from(game.members);
+
+    this.clearGameTimer(game.gameId);
+    this.stopSimulation(game.gameId);
+    this.persist(game);
+
+    this.log.info('Game cancelled', { gameId: game.gameId, reason });
+
+    if (this.onGameCancelled) {
+      this.onGameCancelled(game.gameId, reason);
+    }
+    if (this.onGameStateChange) {
+      this.onGameStateChange(game.gameId);
+    }
+  }
+
+  // Returning members always get their slot back; newcomers only while the lobby is under capacity
+  hasRoomFor(gameId: number, playerId: string): boolean {
+    const game = this.games.get(gameId);
+    if (!game || game.members.has(playerId)) return true;
+
+    return game.members.size < game.rules.maxPlayers;
+  }
+
+  getUnreadyPlayers(gameId: number): string[] {
+    const game = this.games.get(gameId);
+    if (!game) return [];
+
+    return Array.from(game.members).filter(playerId => !game.readyPlayers.has(playerId));
+  }
+
+  addRefunds(gameId: number, playerIds: string[]): void {
+    const game = this.games.get(gameId);
+    if (!game || playerIds.length === 0) return;
+
+    game.refunds.push(...playerIds.filter(playerId => !game.refunds.includes(playerId)));
+    this.persist(game);
+  }
+
+  // Called instead of starting when too few players are ready; nobody wins and every member is refunded
+  cancelLobby(gameId: number, reason: string): boolean {
+    const game = this.games.get(gameId);
+    if (!game || (game.phase !== 'waiting' && game.phase !== 'countdown')) return false;
+
+    this.setPhase(game, 'ended');
+    game.winner = null;
+    game.refunds = Array.from(new Set([...game.refunds, ...game.members]));
+
+    this.clearGameTimer(gameId);
+    this.persist(game);
+
+    this.log.info('Lobby cancelled', { gameId, reason, refunds: game.refunds.length });
+
+    if (this.onLobbyCancelled) {
+      this.onLobbyCancelled(gameId, reason, game.refunds);
+    }
+    if (this.onGameStateChange) {
+      this.onGameStateChange(gameId);
+    }
+    return true;
+  }
+
+  kickPlayer(gameId: number, playerId: string): boolean {
+    const game = this.games.get(gameId);
+    if (!game || !game.members.has(playerId)) return false;
+
+    game.kicked.add(playerId);
+    this.removePlayer(gameId, playerId);
+    return true;
+  }
+
+  updateLatency(gameId: number, playerId: string, latency: number): void {
+    this.simulations.get(gameId)?.setLatency(playerId, latency);
+  }
+
+  getSnapshot(gameId: number): SimulationSnapshot | null {
+    return this.simulations.get(gameId)?.getSnapshot() ?? null;
+  }
+
+  private startSimulation(game: GameSession, playerIds: string[]): void {
+    const simulation = new GameSimulation(game);
+    game.players.clear();
+    simulation.spawnPlayers(playerIds);
+    this.simulations.set(game.gameId, simulation);
+
+    const timer = setInterval(() => {
+      const eliminations = simulation.step(Date.now());
+
+      if (this.onSnapshot) {
+        this.onSnapshot(game.gameId, simulation.getSnapshot());
+      }
+
+      if (eliminations.length > 0) {
+        this.recordEliminations(game, simulation, eliminations);
+      }
+    }, 1000 / TICK_RATE);
+
+    this.simulationTimers.set(game.gameId, timer);
+    this.log.info('Simulation started', { gameId: game.gameId, players: game.players.size });
+  }
+
+  private recordEliminations(game: GameSession, simulation: GameSimulation, events: EliminationEvent[]): void {
+    const survivors = simulation.getAlivePlayerIds();
+
+    // If nobody is left standing, the first player of this tick's group (highest HP going in) takes the win
+    let winnerId: string | null = null;
+    if (survivors.length === 1) {
+      winnerId = survivors[0];
+    } else if (survivors.length === 0) {
+      winnerId = events.shift()!.playerId;
+    }
+
+    const placement = Math.max(survivors.length, 1) + 1;
+    const eliminatedAt = Date.now();
+
+    events.forEach(event => {
+      const record: Placement = {
+        playerId: event.playerId,
+        placement,
+        reason: event.reason,
+        eliminatedBy: event.eliminatedBy,
+        eliminatedAt
+      };
+      game.eliminations.push(record);
+
+      this.log.info('Player eliminated', { gameId: game.gameId, playerId: event.playerId, reason: event.reason, placement });
+
+      if (this.onElimination) {
+        this.onElimination(game.gameId, record);
+      }
+    });
+
+    if (winnerId) {
+      this.endGame(game, winnerId);
+    } else {
+      this.persist(game);
+    }
+  }
+
+  private endGame(game: GameSession, winnerId: string): void {
+    this.setPhase(game, 'ended');
+    game.winner = winnerId;
+
+    this.clearGameTimer(game.gameId);
+    this.stopSimulation(game.gameId);
+
+    const placements: Placement[] = [
+      { playerId: winnerId, placement: 1, reason: null, eliminatedBy: null, eliminatedAt: null },
+      ...game.eliminations.slice().sort((a, b) => a.placement - b.placement)
+    ];
+
+    game.result = this.resultSigner.signGameResult({
+      gameId: game.gameId,
+      winnerId,
+      placements,
+      startTime: game.startTime,
+      endTime: Date.now()
+    });
+
+    this.log.info('Winner declared', { gameId: game.gameId, playerId: winnerId, resultHash: game.result.resultHash });
+
+    this.persist(game);
+
+    if (this.onGameEnded) {
+      this.onGameEnded(game.gameId, game.result);
+    }
+  }
+
+  private persist(game: GameSession): void {
+    this.store.saveGame({
+      gameId: game.gameId,
+      phase: game.phase,
+      rules: game.rules,
+      countdownStartTime: game.countdownStartTime,
+      countdownDuration: game.countdownDuration,
+      members: Array.from(game.members),
+      kicked: Array.from(game.kicked),
+      readyPlayers: Array.from(game.readyPlayers),
+      hostId: game.hostId,
+      deadline: game.deadline,
+      refunds: game.refunds,
+      startTime: game.startTime,
+      winner: game.winner,
+      eliminations: game.eliminations,
+      result: game.result,
+      updatedAt: Date.now()
+    });
+  }
+
+  private hydrate(record: GameRecord): GameSession {
+    return {
+      gameId: record.gameId,
+      phase: record.phase,
+      rules: record.rules ?? { ...this.defaultRules, countdownDuration: record.countdownDuration },
+      countdownStartTime: record.countdownStartTime,
+      countdownDuration: record.countdownDuration,
+      players: new Map(),
+      members: new Set(record.members),
+      disconnected: new Set(),
+      kicked: new Set(record.kicked ?? []),
+      readyPlayers: new Set(record.readyPlayers),
+      hostId: record.hostId ?? record.members[0] ?? null,
+      deadline: record.deadline ?? null,
+      refunds: record.refunds ?? [],
+      startTime: record.startTime,
+      winner: record.winner,
+      eliminations: record.eliminations,
+      result: record.result
+    };
+  }
+
+  // Reuses the countdown's timer slot, which is free once the game is active
+  private startDurationLimit(game: GameSession): void {
+    if (game.rules.maxDuration === null) return;
+
+    const remaining = Math.max(0, game.startTime! + game.rules.maxDuration - Date.now());
+    this.gameTimers.set(game.gameId, setTimeout(() => this.expireGame(game.gameId), remaining));
+  }
+
+  // Survivors are ranked by remaining HP; the healthiest takes the win
+  private expireGame(gameId: number): void {
+    const game = this.games.get(gameId);
+    const simulation = this.simulations.get(gameId);
+    if (!game || game.phase !== 'active' || !simulation) return;
+
+    const alive = new Set(simulation.getAlivePlayerIds());
+    const survivors = simulation.getSnapshot().players
+      .filter(player => alive.has(player.id))
+      .sort((a, b) => b.hp - a.hp);
+    if (survivors.length === 0) return;
+
+    this.log.info('Time limit reached', { gameId, maxDuration: game.rules.maxDuration, survivors: survivors.length });
+
+    const eliminatedAt = Date.now();
+    survivors.slice(1).forEach((player, index) => {
+      game.eliminations.push({
+        playerId: player.id,
+        placement: index + 2,
+        reason: 'time_limit',
+        eliminatedBy: null,
+        eliminatedAt
+      });
+    });
+
+    this.endGame(game, survivors[0].id);
+  }
+
+  private stopSimulation(gameId: number): void {
+    const timer = this.simulationTimers.get(gameId);
+    if (timer) {
+      clearInterval(timer);
+      this.simulationTimers.delete(gameId);
+    }
+    this.simulations.delete(gameId);
+  }
+
+  private clearGameTimer(gameId: number): void {
+    const timer = this.gameTimers.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.gameTimers.delete(gameId);
+    }
+    this.stopCountdownTicks(gameId);
+  }
+
+  private setPhase(game: GameSession, phase: GameSession['phase']): void {
+    const previous = game.phase;
+    if (previous === phase) return;
+
+    game.phase = phase;
+    if (this.onPhaseChanged) {
+      this.onPhaseChanged(game.gameId, phase, previous);
+    }
+  }
+
+  // Ticks carry the remaining time as measured here, so clients never count down against their own clocks
+  private startCountdownTicks(game: GameSession): void {
+    this.stopCountdownTicks(game.gameId);
+
+    const endsAt = game.countdownStartTime! + game.countdownDuration;
+    const tick = () => {
+      if (this.onCountdownTick) {
+        this.onCountdownTick(game.gameId, Math.max(0, endsAt - Date.now()), endsAt);
+      }
+    };
+
+    tick();
+    this.countdownTickers.set(game.gameId, setInterval(tick, COUNTDOWN_TICK_INTERVAL));
+  }
+
+  private stopCountdownTicks(gameId: number): void {
+    const ticker = this.countdownTickers.get(gameId);
+    if (ticker) {
+      clearInterval(ticker);
+      this.countdownTickers.delete(gameId);
+    }
+  }
+}
+
+// ============================================================================
+// SNAPSHOT STREAMING
+// ============================================================================
+
+const SNAPSHOT_HISTORY = 64;
+const INTEREST_RADIUS = 900;
+const POSITION_PRECISION = 10;
+
+interface SnapshotView {
+  players: Map<string, PlayerState>;
+  powerUps: PowerUp[];
+  zone: SafeZone;
+}
+
+function quantize(value: number): number {
+  return Math.round(value * POSITION_PRECISION) / POSITION_PRECISION;
+}
+
+// A living player only hears about bodies close enough to matter; the dead and the absent see the whole arena
+function buildSnapshotView(snapshot: SimulationSnapshot, viewerId: string): SnapshotView {
+  const viewer = snapshot.players.find(p => p.id === viewerId);
+  const players = new Map<string, PlayerState>();
+
+  snapshot.players.forEach(p => {
+    if (viewer && viewer.alive && p.id !== viewerId && Math.hypot(p.x - viewer.x, p.y - viewer.y) > INTEREST_RADIUS) {
+      return;
+    }
+
+    players.set(p.id, {
+      ...p,
+      x: quantize(p.x),
+      y: quantize(p.y),
+      vx: quantize(p.vx),
+      vy: quantize(p.vy),
+      hp: quantize(p.hp)
+    });
+  });
+
+  return { players, powerUps: snapshot.powerUps, zone: snapshot.zone };
+}
+
+function copyField<K extends keyof PlayerState>(to: Partial<PlayerState>, from: PlayerState, key: K): void {
+  to[key] = from[key];
+}
+
+function diffPlayerState(base: PlayerState, current: PlayerState): Partial<PlayerState> | null {
+  const changed: Partial<PlayerState> = {};
+  let any = false;
+
+  (Object.keys(current) as (keyof PlayerState)[]).forEach(field => {
+    if (current[field] !== base[field]) {
+      copyField(changed, current, field);
+      any = true;
+    }
+  });
+
+  return any ? changed : null;
+}
+
+// Per-connection snapshot state: what was sent at each tick, and the newest tick the client confirmed having
+class SnapshotStream {
+  private sent: Map<number, SnapshotView> = new Map();
+  private baseline: { tick: number; view: SnapshotView } | null = null;
+  private lastTick = -1;
+
+  acknowledge(tick: number): void {
+    const view = this.sent.get(tick);
+    if (!view || (this.baseline && tick <= this.baseline.tick)) return;
+
+    this.baseline = { tick, view };
+    this.sent.forEach((_, sentTick) => {
+      if (sentTick < tick) this.sent.delete(sentTick);
+    });
+  }
+
+  next(snapshot: SimulationSnapshot, viewerId: string): ServerMessage {
+    // A restarted simulation counts ticks from zero again, and a client that stopped acking needs a fresh start
+    if (snapshot.tick <= this.lastTick || (this.baseline && snapshot.tick - this.baseline.tick > SNAPSHOT_HISTORY)) {
+      this.sent.clear();
+      this.baseline = null;
+    }
+    this.lastTick = snapshot.tick;
+
+    const view = buildSnapshotView(snapshot, viewerId);
+    this.sent.set(snapshot.tick, view);
+    if (this.sent.size > SNAPSHOT_HISTORY) {
+      this.sent.delete(this.sent.keys().next().value!);
+    }
+
+    const acks: Record<string, number> = viewerId in snapshot.acks ? { [viewerId]: snapshot.acks[viewerId] } : {};
+
+    if (!this.baseline) {
+      return {
+        type: 'sync',
+        tick: snapshot.tick,
+        serverTime: snapshot.serverTime,
+        players: Array.from(view.players.values()),
+        powerUps: view.powerUps,
+        zone: view.zone,
+        acks
+      };
+    }
+
+    const base = this.baseline.view;
+    const players: (Partial<PlayerState> & { id: string })[] = [];
+
+    view.players.forEach((state, id) => {
+      const previous = base.players.get(id);
+      if (!previous) {
+        players.push(state);
+        return;
+      }
+
+      const changed = diffPlayerState(previous, state);
+      if (changed) {
+        players.push({ ...changed, id });
+      }
+    });
+
+    const zoneChanged = base.zone.x !== view.zone.x || base.zone.y !== view.zone.y || base.zone.radius !== view.zone.radius;
+
+    return {
+      type: 'delta',
+      tick: snapshot.tick,
+      baseTick: this.baseline.tick,
+      serverTime: snapshot.serverTime,
+      players,
+      removed: Array.from(base.players.keys()).filter(id => !view.players.has(id)),
+      powerUps: JSON.stringify(base.powerUps) !== JSON.stringify(view.powerUps) ? view.powerUps : undefined,
+      zone: zoneChanged ? view.zone : undefined,
+      acks
+    };
+  }
+}
+
+// ============================================================================
+// CONNECTION MANAGER
+// ============================================================================
+
+// Spectator frames can be held back so a viewer cannot relay live positions to a player
+function sendSpectatorFrame(ws: ClientSocket, frame: string, delay: number): void {
+  if (delay <= 0) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(frame);
+    return;
+  }
+
+  setTimeout(() => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(frame);
+  }, delay);
+}
+
+class ConnectionManager {
+  private log = new Logger('ConnectionManager');
+  private connections: Map<string, ClientConnection> = new Map();
+  private gameConnections: Map<number, Set<string>> = new Map();
+  private spectators: Map<number, Set<ClientSocket>> = new Map();
+  private onMessageSent?: (gameId: number, playerId: string | null, message: ServerMessage) => void;
+
+  constructor(private spectatorDelay: number = 0) { }
+
+  setMessageSentCallback(callback: (gameId: number, playerId: string | null, message: ServerMessage) => void) {
+    this.onMessageSent = callback;
+  }
+
+  addConnection(ws: ClientSocket, playerId: string, gameId: number, options: ConnectionOptions): void {
+    const connectionId = `${gameId}-${playerId}`;
+
+    this.connections.set(connectionId, {
+      ws,
+      playerId,
+      gameId,
+      latency: null,
+      protocolVersion: options.protocolVersion,
+      encoding: options.encoding,
+      snapshots: new SnapshotStream()
+    });
+
+    if (!this.gameConnections.has(gameId)) {
+      this.gameConnections.set(gameId, new Set());
+    }
+    this.gameConnections.get(gameId)!.add(connectionId);
+
+    this.log.debug('Connection added', { gameId, playerId });
+  }
+
+  // Returns false when a newer socket for the same player holds the slot, leaving it untouched
+  removeConnection(playerId: string, gameId: number, ws: ClientSocket): boolean {
+    const connectionId = `${gameId}-${playerId}`;
+    const conn = this.connections.get(connectionId);
+    if (conn && conn.ws !== ws) return false;
+
+    this.connections.delete(connectionId);
+
+    const gameConns = this.gameConnections.get(gameId);
+    if (gameConns) {
+      gameConns.delete(connectionId);
+      if (gameConns.size === 0) {
+        this.gameConnections.delete(gameId);
+      }
+    }
+
+    this.log.debug('Connection removed', { gameId, playerId });
+    return true;
+  }
+
+  getSocket(playerId: string, gameId: number): ClientSocket | undefined {
+    return this.connections.get(`${gameId}-${playerId}`)?.ws;
+  }
+
+  addSpectator(ws: ClientSocket, gameId: number): void {
+    if (!this.spectators.has(gameId)) {
+      this.spectators.set(gameId, new Set());
+    }
+    this.spectators.get(gameId)!.add(ws);
+
+    this.log.debug('Spectator added', { gameId, spectators: this.spectators.get(gameId)!.size });
+  }
+
+  removeSpectator(ws: ClientSocket, gameId: number): void {
+    const watchers = this.spectators.get(gameId);
+    if (!watchers) return;
+
+    watchers.delete(ws);
+    if (watchers.size === 0) {
+      this.spectators.delete(gameId);
+    }
+
+    this.log.debug('Spectator removed', { gameId, spectators: watchers.size });
+  }
+
+  getSpectatorCount(gameId: number): number {
+    return this.spectators.get(gameId)?.size ?? 0;
+  }
+
+  sendToSpectator(ws: ClientSocket, message: ServerMessage): void {
+    sendSpectatorFrame(ws, JSON.stringify(message), this.spectatorDelay);
+    metrics.messagesOut.inc({ type: message.type });
+  }
+
+  closeConnection(playerId: string, gameId: number, code: number, reason: string): void {
+    const conn = this.connections.get(`${gameId}-${playerId}`);
+    if (conn && conn.ws.readyState === WebSocket.OPEN) {
+      conn.ws.close(code, reason);
+    }
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  isConnected(playerId: string, gameId: number): boolean {
+    return this.connections.has(`${gameId}-${playerId}`);
+  }
+
+  // Returns the player connection the socket belongs to, if any
+  setLatency(ws: ClientSocket, latency: number): ClientConnection | null {
+    for (const conn of this.connections.values()) {
+      if (conn.ws === ws) {
+        conn.latency = latency;
+        return conn;
+      }
+    }
+    return null;
+  }
+
+  broadcastToGame(gameId: number, message: ServerMessage, excludePlayerId?: string): void {
+    this.onMessageSent?.(gameId, null, message);
+
+    const messageStr = JSON.stringify(message);
+    let binary: Buffer | null = null;
+
+    const spectatorCount = this.spectators.get(gameId)?.size ?? 0;
+    this.spectators.get(gameId)?.forEach(ws => sendSpectatorFrame(ws, messageStr, this.spectatorDelay));
+
+    let sentCount = 0;
+
+    this.gameConnections.get(gameId)?.forEach(connectionId => {
+      const conn = this.connections.get(connectionId);
+      if (conn && conn.ws.readyState === WebSocket.OPEN) {
+        if (!excludePlayerId || conn.playerId !== excludePlayerId) {
+          if (conn.encoding === 'msgpack') {
+            binary = binary ?? encodeMsgPack(message);
+            conn.ws.send(binary);
+          } else {
+            conn.ws.send(messageStr);
+          }
+          sentCount++;
+        }
+      }
+    });
+
+    metrics.messagesOut.inc({ type: message.type }, sentCount + spectatorCount);
+    metrics.fanout.observe({ channel: 'game' }, sentCount + spectatorCount);
+
+    // Snapshots go out every tick; logging each one would dwarf everything else even at debug level
+    if (message.type !== 'sync') {
+      this.log.debug('Broadcast', { gameId, type: message.type, players: sentCount, spectators: spectatorCount });
+    }
+  }
+
+  sendToPlayer(playerId: string, gameId: number, message: ServerMessage): void {
+    const connectionId = `${gameId}-${playerId}`;
+    const conn = this.connections.get(connectionId);
+
+    this.onMessageSent?.(gameId, playerId, message);
+
+    if (conn && conn.ws.readyState === WebSocket.OPEN) {
+      conn.ws.send(encodeFrame(message, conn.encoding));
+      metrics.messagesOut.inc({ type: message.type });
+    }
+  }
+
+  // Delta-capable clients get their own interest-filtered view; older clients and spectators get the full snapshot
+  broadcastSnapshot(gameId: number, snapshot: SimulationSnapshot): void {
+    const fullSync: ServerMessage = { type: 'sync', ...snapshot };
+    let fullFrame: string | null = null;
+
+    // Replays keep the full snapshot; per-client deltas are only meaningful to the client that acked them
+    this.onMessageSent?.(gameId, null, fullSync);
+
+    const spectatorCount = this.spectators.get(gameId)?.size ?? 0;
+    if (spectatorCount > 0) {
+      fullFrame = JSON.stringify(fullSync);
+      this.spectators.get(gameId)!.forEach(ws => sendSpectatorFrame(ws, fullFrame!, this.spectatorDelay));
+      metrics.messagesOut.inc({ type: 'sync' }, spectatorCount);
+    }
+
+    let sentCount = 0;
+
+    this.gameConnections.get(gameId)?.forEach(connectionId => {
+      const conn = this.connections.get(connectionId);
+      if (!conn || conn.ws.readyState !== WebSocket.OPEN) return;
+
+      if (conn.protocolVersion >= DELTA_PROTOCOL_VERSION) {
+        const frame = conn.snapshots.next(snapshot, conn.playerId);
+        conn.ws.send(encodeFrame(frame, conn.encoding));
+        metrics.messagesOut.inc({ type: frame.type });
+      } else {
+        fullFrame = fullFrame ?? JSON.stringify(fullSync);
+        conn.ws.send(fullFrame);
+        metrics.messagesOut.inc({ type: 'sync' });
+      }
+      sentCount++;
+    });
+
+    metrics.fanout.observe({ channel: 'snapshot' }, sentCount + spectatorCount);
+  }
+
+  acknowledgeSnapshot(playerId: string, gameId: number, tick: number): void {
+    this.connections.get(`${gameId}-${playerId}`)?.snapshots.acknowledge(tick);
+  }
+
+  getGamePlayerIds(gameId: number): string[] {
+    const gameConns = this.gameConnections.get(gameId);
+    if (!gameConns) return [];
+
+    return Array.from(gameConns)
+      .map(connId => this.connections.get(connId)?.playerId)
+      .filter(id => id !== undefined) as string[];
+  }
+
+}
+
+// ============================================================================
+// MESSAGE HANDLER
+// ============================================================================
+
+class MessageHandler {
+  private log = new Logger('MessageHandler');
+  constructor(
+    private gameManager: GameManager,
+    private connectionManager: ConnectionManager,
+    private auditLog: AuditLog
+  ) { }
+
+  handleMessage(playerId: string, gameId: number, message: Phase3ClientMessage): void {
+    try {
+      switch (message.type) {
+        case 'heartbeat':
+          // Liveness comes from protocol pings; older clients still send these and they are simply accepted
+          break;
+
+        case 'mark_ready':
+          this.handleMarkReady(playerId, gameId);
+          break;
+
+        case 'start_game':
+          this.handleStartGame(playerId, gameId);
+          break;
+
+        case 'input':
+          this.handlePlayerInput(playerId, gameId, message.data);
+          break;
+
+        case 'snapshot_ack':
+          this.connectionManager.acknowledgeSnapshot(playerId, gameId, message.tick);
+          break;
+
+        case 'update':
+          this.connectionManager.sendToPlayer(playerId, gameId, {
+            type: 'error',
+            code: 'DEPRECATED_MESSAGE',
+            message: 'Player state is server-authoritative; send input messages instead'
+          });
+          break;
+
+        case 'eliminated':
+        case 'winner':
+          // Outcomes are decided by the simulation; client claims are advisory and never applied
+          this.log.info('Ignoring client-sent outcome', { gameId, playerId, type: message.type });
+          this.connectionManager.sendToPlayer(playerId, gameId, {
+            type: 'error',
+            code: 'NOT_ALLOWED',
+            message: 'Eliminations and winners are decided by the server'
+          });
+          break;
+
+        default:
+          this.log.warn('Unhandled message type', { gameId, playerId, type: message.type });
+      }
+    } catch (error) {
+      this.log.error('Error processing message', { gameId, playerId, type: message.type, error });
+    }
+  }
+
+  private handleMarkReady(playerId: string, gameId: number): void {
+    this.gameManager.markPlayerReady(gameId, playerId);
+
+    const game = this.gameManager.getGameState(gameId);
+    if (game) {
+      this.broadcastGameState(gameId);
+    }
+  }
+
+  private handleStartGame(playerId: string, gameId: number): void {
+    this.log.info('Player requesting game start', { gameId, playerId });
+
+    if (!this.gameManager.isHost(gameId, playerId)) {
+      this.auditLog.record({
+        action: 'start_game',
+        actor: playerId,
+        target: `game ${gameId}`,
+        outcome: 'rejected',
+        reason: 'not the lobby host'
+      });
+      this.connectionManager.sendToPlayer(playerId, gameId, {
+        type: 'error',
+        code: 'NOT_ALLOWED',
+        message: 'Only the lobby host can start the game'
+      });
+      return;
+    }
+
+    const result = this.gameManager.startGame(gameId);
+
+    if (result.success && result.gameState) {
+      this.broadcastGameState(gameId);
+    } else {
+      this.connectionManager.sendToPlayer(playerId, gameId, {
+        type: 'error',
+        code: 'INVALID_STATE',
+        message: result.message
+      });
+    }
+  }
+
+  private handlePlayerInput(playerId: string, gameId: number, data: Record<string, unknown>): void {
+    const input = parsePlayerInput(data);
+
+    if (!input) {
+      this.connectionManager.sendToPlayer(playerId, gameId, {
+        type: 'error',
+        code: 'INVALID_PAYLOAD',
+        message: 'Invalid input'
+      });
+      return;
+    }
+
+    // Inputs outside the active phase or from eliminated players are simply ignored
+    this.gameManager.applyPlayerInput(gameId, playerId, input);
+  }
+
+  private broadcastGameState(gameId: number): void {
+    const game = this.gameManager.getGameState(gameId);
+    if (!game) return;
+
+    this.connectionManager.broadcastToGame(gameId, {
+      type: 'game_state_update',
+      gameState: buildGameStateView(
+        game,
+        this.connectionManager.getGamePlayerIds(gameId).length,
+        this.connectionManager.getSpectatorCount(gameId)
+      )
+    });
+  }
+}
+
+// ============================================================================
+// BATTLE RULESETS
+// ============================================================================
+
+class RockPaperScissorsRuleset implements BattleRuleset {
+  readonly name = 'rock_paper_scissors';
+  readonly moves = ['rock', 'paper', 'scissors'] as const;
+  private beats: Record<string, string> = { rock: 'scissors', paper: 'rock', scissors: 'paper' };
+
+  constructor(readonly bestOf: number = 3) { }
+
+  isValidMove(move: string): boolean {
+    return (this.moves as readonly string[]).includes(move);
+  }
+
+  resolveRound(a: { playerId: string; move: string }, b: { playerId: string; move: string }): string | null {
+    if (a.move === b.move) return null;
+    return this.beats[a.move] === b.move ? a.playerId : b.playerId;
+  }
+}
+
+// ============================================================================
+// BATTLE MANAGER
+// ============================================================================
+
+const REVEAL_TIMEOUT = 15000;
+const MATCH_JOIN_TIMEOUT = 60000;
+const MAX_ROUNDS_FACTOR = 3;
+
+const DEFAULT_BATTLE_TIMING: BattleTimingOptions = {
+  roundTimeout: 30000,
+  timerBroadcastInterval: 5000,
+  maxConsecutiveTimeouts: 2,
+  timeoutPolicy: 'forfeit_round',
+  reconnectGrace: 15000,
+  spectatorDelay: 0,
+  expiry: 1800000
+};
+
+// Binding the commitment to the battle, round and player stops a client from replaying its opponent's hash
+function computeMoveCommitment(challengeId: string, round: number, playerId: string, move: string, salt: string): string {
+  return createHash('sha256').update(`${challengeId}:${round}:${playerId}:${move}:${salt}`).digest('hex');
+}
+
+class BattleManager {
+  private log = new Logger('BattleManager');
+  private battles: Map<string, BattleSession> = new Map();
+  private messageGuard: (ws: ClientSocket, type: string) => boolean = () => true;
+  private duplicatePolicy: DuplicatePolicy = 'replace';
+  private onBattleEnded?: (challengeId: string, players: string[], winner: string | null, reason: string) => void;
+  private onEvent?: (challengeId: string, direction: ReplayEvent['direction'], playerId: string | null, message: ReplayEvent['message']) => void;
+
+  constructor(
+    private store: GameStore,
+    private createRuleset: () => BattleRuleset = () => new RockPaperScissorsRuleset(),
+    private timing: BattleTimingOptions = DEFAULT_BATTLE_TIMING
+  ) { }
+
+  setMessageGuard(guard: (ws: ClientSocket, type: string) => boolean) {
+    this.messageGuard = guard;
+  }
+
+  setDuplicatePolicy(policy: DuplicatePolicy) {
+    this.duplicatePolicy = policy;
+  }
+
+  setBattleEndedCallback(callback: (challengeId: string, players: string[], winner: string | null, reason: string) => void) {
+    this.onBattleEnded = callback;
+  }
+
+  setEventCallback(callback: (challengeId: string, direction: ReplayEvent['direction'], playerId: string | null, message: ReplayEvent['message']) => void) {
+    this.onEvent = callback;
+  }
+
+  // Rehydrates unfinished battles with every player in their reconnect grace window and the round clock paused
+  restore(): string[] {
+    const restored: string[] = [];
+
+    this.store.loadBattles()
+      .filter(record => record.status !== 'ended')
+      .forEach(record => {
+        const battle = this.createSession(record.challengeId);
+        battle.players = new Set(record.players);
+        battle.status = record.status === 'ready' ? 'in_progress' : record.status;
+        battle.createdAt = record.createdAt;
+        battle.currentRound = record.currentRound;
+        battle.scores = new Map(Object.entries(record.scores));
+        battle.roundResults = record.roundResults;
+        battle.consecutiveTimeouts = new Map(Object.entries(record.consecutiveTimeouts));
+        battle.allowedPlayers = record.allowedPlayers ? new Set(record.allowedPlayers) : null;
+        battle.stakeTier = record.stakeTier ?? null;
+        record.moves.forEach(move => {
+          if (!battle.moves.has(move.round)) battle.moves.set(move.round, []);
+          battle.moves.get(move.round)!.push(move);
+        });
+
+        const inReveal = (battle.moves.get(battle.currentRound)?.length ?? 0) === 2;
+        if (battle.status === 'in_progress' && !inReveal) {
+          battle.roundTimeRemaining = record.roundTimeRemaining ?? this.timing.roundTimeout;
+        }
+
+        battle.players.forEach(playerId => {
+          battle.reconnectTimers.set(playerId, setTimeout(() => {
+            this.handleReconnectTimeout(battle.challengeId, playerId);
+          }, this.timing.reconnectGrace));
+        });
+
+        this.battles.set(battle.challengeId, battle);
+        this.log.info('Restored battle', { challengeId: battle.challengeId, status: battle.status, round: battle.currentRound });
+        restored.push(battle.challengeId);
+      });
+
+    return restored;
+  }
+
+  handleConnection(ws: ClientSocket, challengeId: string, playerId: string) {
+    let battle = this.battles.get(challengeId);
+
+    if (!battle) {
+      const record = this.store.loadBattle(challengeId);
+      if (record && record.status === 'ended') {
+        this.sendTo(ws, {
+          type: 'game_ended',
+          winner: record.winner,
+          reason: 'already_ended',
+          scores: record.scores,
+          challengeId
+        });
+        ws.close(1000, 'Battle already ended');
+        return;
+      }
+
+      battle = this.createSession(challengeId);
+      this.battles.set(challengeId, battle);
+      this.persist(battle);
+      this.log.info('Created battle', { challengeId });
+    }
+
+    if (battle.allowedPlayers && !battle.allowedPlayers.has(playerId)) {
+      this.log.info('Rejected non-participant from matchmade battle', { challengeId, playerId });
+      ws.close(4003, 'Not a participant in this battle');
+      return;
+    }
+
+    // A battle seats exactly two players; anyone else has to watch as a spectator
+    if (!battle.players.has(playerId) && battle.players.size >= 2) {
+      this.log.info('Rejected third player from full battle', { challengeId, playerId });
+      ws.close(4010, 'Battle is full');
+      return;
+    }
+
+    const previous = battle.connections.get(playerId);
+    if (previous && previous !== ws && previous.readyState === WebSocket.OPEN) {
+      if (this.duplicatePolicy === 'reject') {
+        this.log.info('Rejected second connection', { challengeId, playerId });
+        ws.close(4011, 'Already connected from another session');
+        return;
+      }
+      this.replaceConnection(battle, ws, playerId, previous);
+    } else if (battle.reconnectTimers.has(playerId)) {
+      this.resumePlayer(battle, ws, playerId);
+    } else {
+      this.addPlayer(battle, ws, playerId);
+    }
+
+    ws.on('message', (data: Buffer) => {
+      // Frames still in flight on a replaced socket must not act for the player
+      if (this.battles.get(challengeId)?.connections.get(playerId) !== ws) return;
+
+      const parsed = parseClientMessage<BattleClientMessage>(data, BATTLE_MESSAGE_SCHEMAS);
+      if (!this.messageGuard(ws, parsed.ok ? parsed.message.type : '*')) return;
+      if (!parsed.ok) {
+        this.sendTo(ws, { type: 'error', code: parsed.code, message: parsed.error });
+        return;
+      }
+
+      if (parsed.message.type === 'time_sync') {
+        this.sendTo(ws, timeSyncReply(parsed.message.clientTime));
+        return;
+      }
+
+      this.onEvent?.(challengeId, 'in', playerId, parsed.message);
+
+      try {
+        this.handleMessage(challengeId, playerId, parsed.message);
+      } catch (e) {
+        this.log.error('Error handling message', { challengeId, playerId, type: parsed.message.type, error: e });
+      }
+    });
+
+    ws.on('close', () => {
+      this.handleDisconnect(challengeId, playerId, ws);
+    });
+  }
+
+  // Matchmade battles exist before either player connects and only admit the paired players
+  createMatchedBattle(challengeId: string, players: [string, string], stakeTier: string) {
+    const battle = this.createSession(challengeId);
+    battle.allowedPlayers = new Set(players);
+    battle.stakeTier = stakeTier;
+
+    this.battles.set(challengeId, battle);
+    this.persist(battle);
+    this.log.info('Created matchmade battle', { challengeId, tier: stakeTier });
+  }
+
+  private createSession(challengeId: string): BattleSession {
+    return {
+      challengeId,
+      players: new Set(),
+      connections: new Map(),
+      moves: new Map(),
+      status: 'waiting',
+      winner: null,
+      createdAt: Date.now(),
+      revealTimer: null,
+      revealDeadline: null,
+      revealTimeRemaining: null,
+      ruleset: this.createRuleset(),
+      currentRound: 1,
+      scores: new Map(),
+      roundResults: [],
+      roundTimer: null,
+      roundTimerBroadcast: null,
+      roundDeadline: null,
+      roundTimeRemaining: null,
+      consecutiveTimeouts: new Map(),
+      reconnectTimers: new Map(),
+      spectators: new Set(),
+      allowedPlayers: null,
+      stakeTier: null
+    };
+  }
+
+  private addPlayer(battle: BattleSession, ws: ClientSocket, playerId: string) {
+    const { challengeId } = battle;
+
+    battle.players.add(playerId);
+    battle.connections.set(playerId, ws);
+
+    this.sendToPlayer(battle, playerId, {
+      type: 'player_joined',
+      playerId,
+      playersCount: battle.players.size,
+      challengeId
+    });
+
+    this.broadcastToBattle(challengeId, {
+      type: 'player_joined',
+      playerId,
+      playersCount: battle.players.size
+    }, playerId);
+
+    if (battle.players.size === 2 && battle.status === 'waiting') {
+      battle.status = 'ready';
+      battle.players.forEach(p => battle!.scores.set(p, 0));
+      this.startRoundTimer(battle);
+      this.broadcastToBattle(challengeId, {
+        type: 'game_ready',
+        challengeId,
+        players: Array.from(battle.players),
+        ruleset: {
+          name: battle.ruleset.name,
+          moves: battle.ruleset.moves,
+          bestOf: battle.ruleset.bestOf
+        },
+        round: battle.currentRound,
+        deadline: battle.roundDeadline
+      });
+      setTimeout(() => {
+        const b = this.battles.get(challengeId);
+        if (b && b.status === 'ready') {
+          b.status = 'in_progress';
+          this.persist(b);
+        }
+      }, 1000);
+    }
+
+    this.persist(battle);
+  }
+
+  private resumePlayer(battle: BattleSession, ws: ClientSocket, playerId: string) {
+    clearTimeout(battle.reconnectTimers.get(playerId)!);
+    battle.reconnectTimers.delete(playerId);
+    battle.connections.set(playerId, ws);
+
+    this.log.info('Player resumed battle', { challengeId: battle.challengeId, playerId });
+
+    // The round clock was paused while anyone was away; restart it once everyone is back
+    if (battle.reconnectTimers.size === 0 && battle.roundTimeRemaining !== null && battle.status !== 'ended') {
+      const remaining = battle.roundTimeRemaining;
+      battle.roundTimeRemaining = null;
+      this.startRoundTimer(battle, remaining);
+    }
+
+    const roundMoves = battle.moves.get(battle.currentRound) ?? [];
+
+    this.sendToPlayer(battle, playerId, this.buildResync(battle));
+
+    this.broadcastToBattle(battle.challengeId, {
+      type: 'player_reconnected',
+      playerId
+    }, playerId);
+
+    // Reopen a paused reveal phase with the time it had left; a battle restored mid-reveal gets a full window
+    const awaitingReveal = roundMoves.length === 2 && roundMoves.some(m => m.revealedAt === null);
+    if (battle.reconnectTimers.size === 0 && battle.status !== 'ended' && awaitingReveal && !battle.revealTimer) {
+      const remaining = battle.revealTimeRemaining ?? REVEAL_TIMEOUT;
+      battle.revealTimeRemaining = null;
+      this.startRevealPhase(battle, battle.currentRound, remaining);
+    }
+  }
+
+  // The newer socket takes the seat without the opponent ever seeing a disconnect
+  private replaceConnection(battle: BattleSession, ws: ClientSocket, playerId: string, previous: ClientSocket) {
+    battle.connections.set(playerId, ws);
+    previous.close(4009, 'Replaced by a newer connection');
+
+    this.log.info('Player replaced their connection', { challengeId: battle.challengeId, playerId });
+
+    this.sendToPlayer(battle, playerId, this.buildResync(battle));
+  }
+
+  // Spectators get the same public view a resuming player does, and never join battle.players
+  handleSpectatorConnection(ws: ClientSocket, challengeId: string) {
+    const battle = this.battles.get(challengeId);
+
+    if (!battle) {
+      const record = this.store.loadBattle(challengeId);
+      if (record && record.status === 'ended') {
+        this.sendTo(ws, {
+          type: 'game_ended',
+          winner: record.winner,
+          reason: 'already_ended',
+          scores: record.scores,
+          challengeId
+        });
+        ws.close(1000, 'Battle already ended');
+      } else {
+        ws.close(4004, 'Battle not found');
+      }
+      return;
+    }
+
+    battle.spectators.add(ws);
+    sendSpectatorFrame(ws, JSON.stringify(this.buildResync(battle)), this.timing.spectatorDelay);
+
+    this.log.debug('Spectator joined', { challengeId, spectators: battle.spectators.size });
+
+    ws.on('message', (data: Buffer) => {
+      const parsed = parseClientMessage<BattleClientMessage>(data, BATTLE_MESSAGE_SCHEMAS);
+      if (!this.messageGuard(ws, parsed.ok && parsed.message.type === 'time_sync' ? 'time_sync' : '*')) return;
+      if (parsed.ok && parsed.message.type === 'time_sync') {
+        this.sendTo(ws, timeSyncReply(parsed.message.clientTime));
+        return;
+      }
+
+      this.sendTo(ws, parsed.ok
+        ? { type: 'error', code: 'NOT_ALLOWED', message: 'Spectators cannot send gameplay messages' }
+        : { type: 'error', code: parsed.code, message: parsed.error });
+    });
+
+    ws.on('close', () => {
+      battle.spectators.delete(ws);
+    });
+  }
+
+  private buildResync(battle: BattleSession): ServerMessage {
+    const roundMoves = battle.moves.get(battle.currentRound) ?? [];
+
+    return {
+      type: 'resync',
+      challengeId: battle.challengeId,
+      status: battle.status,
+      players: Array.from(battle.players),
+      ruleset: {
+        name: battle.ruleset.name,
+        moves: battle.ruleset.moves,
+        bestOf: battle.ruleset.bestOf
+      },
+      round: battle.currentRound,
+      deadline: battle.roundDeadline,
+      scores: Object.fromEntries(battle.scores),
+      committed: roundMoves.map(m => m.playerId),
+      revealed: roundMoves.filter(m => m.revealedAt !== null).map(m => m.playerId),
+      roundResults: battle.roundResults,
+      winner: battle.winner
+    };
+  }
+
+  private handleMessage(challengeId: string, playerId: string, msg: BattleClientMessage) {
+    const battle = this.battles.get(challengeId);
+    if (!battle || battle.status === 'ended') return;
+
+    if (msg.type === 'game_ended') {
+      this.sendToPlayer(battle, playerId, {
+        type: 'error',
+        code: 'NOT_ALLOWED',
+        message: `Battle results are decided by the ${battle.ruleset.name} ruleset`
+      });
+      return;
+    }
+
+    if (msg.type === 'commit_move') {
+      this.handleCommitMove(battle, playerId, msg);
+    } else if (msg.type === 'reveal_move') {
+      this.handleRevealMove(battle, playerId, msg);
+    } else if (msg.type === 'submit_move') {
+      this.sendToPlayer(battle, playerId, {
+        type: 'error',
+        code: 'DEPRECATED_MESSAGE',
+        message: 'Plaintext moves are not accepted; use commit_move and reveal_move'
+      });
+    }
+  }
+
+  private handleCommitMove(battle: BattleSession, playerId: string, msg: Extract<BattleClientMessage, { type: 'commit_move' }>) {
+    const { round, commitment } = msg;
+
+    if (!battle.players.has(playerId)) {
+      this.sendToPlayer(battle, playerId, { type: 'error', code: 'NOT_ALLOWED', message: 'Not seated in this battle' });
+      return;
+    }
+
+    if (!/^[0-9a-f]{64}$/.test(commitment)) {
+      this.sendToPlayer(battle, playerId, { type: 'error', code: 'INVALID_PAYLOAD', message: 'Invalid commitment' });
+      return;
+    }
+
+    if (battle.status === 'waiting' || round !== battle.currentRound) {
+      this.sendToPlayer(battle, playerId, {
+        type: 'error',
+        code: 'INVALID_STATE',
+        message: `Moves are only accepted for round ${battle.currentRound}`
+      });
+      return;
+    }
+
+    if (!battle.moves.has(round)) {
+      battle.moves.set(round, []);
+    }
+
+    const roundMoves = battle.moves.get(round)!;
+    if (roundMoves.some(m => m.playerId === playerId)) return;
+
+    roundMoves.push({
+      playerId,
+      commitment,
+      move: null,
+      salt: null,
+      round,
+      submittedAt: Date.now(),
+      revealedAt: null
+    });
+
+    this.broadcastToBattle(battle.challengeId, {
+      type: 'opponent_moved',
+      playerId
+    }, playerId);
+
+    battle.consecutiveTimeouts.set(playerId, 0);
+    this.persist(battle);
+
+    if (roundMoves.length === 2) {
+      this.startRevealPhase(battle, round);
+    }
+  }
+
+  private startRevealPhase(battle: BattleSession, round: number, duration: number = REVEAL_TIMEOUT) {
+    this.clearRoundTimer(battle);
+    // A round clock paused by a disconnect has no business restarting once the round is being revealed
+    battle.roundTimeRemaining = null;
+
+    const roundMoves = battle.moves.get(round)!;
+    if (roundMoves.every(m => m.revealedAt !== null)) {
+      this.completeReveal(battle, roundMoves);
+      return;
+    }
+
+    // With a player still inside their reconnect window the phase stays paused; resumePlayer opens it
+    if (battle.reconnectTimers.size > 0) {
+      battle.revealTimeRemaining = duration;
+      return;
+    }
+
+    battle.revealDeadline = Date.now() + duration;
+    battle.revealTimer = setTimeout(() => {
+      this.handleRevealTimeout(battle.challengeId, round);
+    }, duration);
+
+    this.broadcastToBattle(battle.challengeId, {
+      type: 'reveal_phase',
+      round,
+      deadline: battle.revealDeadline
+    });
+  }
+
+  private handleRevealMove(battle: BattleSession, playerId: string, msg: Extract<BattleClientMessage, { type: 'reveal_move' }>) {
+    const { round, move, salt } = msg;
+
+    if (!battle.players.has(playerId)) {
+      this.sendToPlayer(battle, playerId, { type: 'error', code: 'NOT_ALLOWED', message: 'Not seated in this battle' });
+      return;
+    }
+
+    const roundMoves = battle.moves.get(round);
+    const entry = roundMoves?.find(m => m.playerId === playerId);
+
+    if (!roundMoves || roundMoves.length < 2 || !entry) {
+      this.sendToPlayer(battle, playerId, { type: 'error', code: 'INVALID_STATE', message: 'Round is not in the reveal phase' });
+      return;
+    }
+    if (entry.revealedAt !== null) return;
+
+    if (computeMoveCommitment(battle.challengeId, round, playerId, move, salt) !== entry.commitment) {
+      this.log.warn('Reveal does not match commitment', { challengeId: battle.challengeId, playerId, round });
+      const opponent = Array.from(battle.players).find(p => p !== playerId) ?? null;
+      this.endBattle(battle, opponent, 'reveal_mismatch');
+      return;
+    }
+
+    entry.move = move;
+    entry.salt = salt;
+    entry.revealedAt = Date.now();
+    this.persist(battle);
+
+    if (roundMoves.every(m => m.revealedAt !== null)) {
+      this.completeReveal(battle, roundMoves);
+    }
+  }
+
+  private completeReveal(battle: BattleSession, roundMoves: BattleMove[]) {
+    this.clearRevealTimer(battle);
+
+    this.broadcastToBattle(battle.challengeId, {
+      type: 'round_complete',
+      round: battle.currentRound,
+      moves: roundMoves.map(m => ({
+        playerAddress: m.playerId,
+        move: m.move,
+        salt: m.salt
+      }))
+    });
+
+    this.resolveRound(battle, roundMoves);
+  }
+
+  private resolveRound(battle: BattleSession, roundMoves: BattleMove[]) {
+    const { ruleset } = battle;
+
+    // A committed move outside the ruleset is treated like a bad reveal
+    const invalid = roundMoves.filter(m => !ruleset.isValidMove(m.move!));
+    if (invalid.length > 0) {
+      const valid = roundMoves.find(m => ruleset.isValidMove(m.move!));
+      this.endBattle(battle, invalid.length === 1 && valid ? valid.playerId : null, 'invalid_move');
+      return;
+    }
+
+    const [a, b] = roundMoves.map(m => ({ playerId: m.playerId, move: m.move! }));
+    const winner = ruleset.resolveRound(a, b);
+
+    this.completeRound(battle, winner, [a, b].map(m => ({ playerAddress: m.playerId, move: m.move })), []);
+  }
+
+  private completeRound(battle: BattleSession, winner: string | null, moves: RoundResult['moves'], timedOut: string[]) {
+    const { ruleset } = battle;
+    const round = battle.currentRound;
+
+    if (winner) {
+      battle.scores.set(winner, (battle.scores.get(winner) ?? 0) + 1);
+    }
+
+    battle.roundResults.push({ round, winner, moves, timedOut });
+
+    this.broadcastToBattle(battle.challengeId, {
+      type: 'round_result',
+      round,
+      winner,
+      timedOut,
+      scores: Object.fromEntries(battle.scores)
+    });
+
+    const winsNeeded = Math.floor(ruleset.bestOf / 2) + 1;
+    const leader = Array.from(battle.scores.entries()).find(([, score]) => score >= winsNeeded);
+    if (leader) {
+      this.endBattle(battle, leader[0], 'best_of');
+      return;
+    }
+
+    // Draws replay the round, but only up to a hard cap so a battle cannot loop forever
+    if (round >= ruleset.bestOf * MAX_ROUNDS_FACTOR) {
+      const [first, second] = Array.from(battle.scores.entries()).sort((x, y) => y[1] - x[1]);
+      this.endBattle(battle, first[1] > second[1] ? first[0] : null, 'round_limit');
+      return;
+    }
+
+    battle.currentRound++;
+    this.startRoundTimer(battle);
+    this.persist(battle);
+
+    this.broadcastToBattle(battle.challengeId, {
+      type: 'round_start',
+      round: battle.currentRound,
+      deadline: battle.roundDeadline
+    });
+  }
+
+  private startRoundTimer(battle: BattleSession, duration: number = this.timing.roundTimeout) {
+    this.clearRoundTimer(battle);
+
+    const { timerBroadcastInterval } = this.timing;
+    const round = battle.currentRound;
+    battle.roundDeadline = Date.now() + duration;
+
+    battle.roundTimer = setTimeout(() => {
+      this.handleRoundTimeout(battle.challengeId, round);
+    }, duration);
+
+    battle.roundTimerBroadcast = setInterval(() => {
+      this.broadcastToBattle(battle.challengeId, {
+        type: 'round_timer',
+        round,
+        deadline: battle.roundDeadline,
+        remaining: Math.max(0, battle.roundDeadline! - Date.now())
+      });
+    }, timerBroadcastInterval);
+  }
+
+  private handleRoundTimeout(challengeId: string, round: number) {
+    const battle = this.battles.get(challengeId);
+    if (!battle || battle.status === 'ended' || battle.currentRound !== round) return;
+
+    this.clearRoundTimer(battle);
+
+    const roundMoves = battle.moves.get(round) ?? [];
+    const idle = Array.from(battle.players).filter(p => !roundMoves.some(m => m.playerId === p));
+    if (idle.length === 0) return;
+
+    this.log.info('Round timed out', { challengeId, round, idle });
+
+    idle.forEach(p => battle.consecutiveTimeouts.set(p, (battle.consecutiveTimeouts.get(p) ?? 0) + 1));
+
+    const exhausted = idle.filter(p => battle.consecutiveTimeouts.get(p)! >= this.timing.maxConsecutiveTimeouts);
+    if (exhausted.length > 0) {
+      const winner = exhausted.length === 1 ? Array.from(battle.players).find(p => p !== exhausted[0]) ?? null : null;
+      this.endBattle(battle, winner, 'timeout');
+      return;
+    }
+
+    if (this.timing.timeoutPolicy === 'default_move') {
+      // Auto-submitted moves are revealed immediately; the active player still reveals their own
+      idle.forEach(p => {
+        const move = battle.ruleset.moves[randomInt(battle.ruleset.moves.length)];
+        const salt = randomBytes(16).toString('hex');
+        roundMoves.push({
+          playerId: p,
+          commitment: computeMoveCommitment(challengeId, round, p, move, salt),
+          move,
+          salt,
+          round,
+          submittedAt: Date.now(),
+          revealedAt: Date.now()
+        });
+      });
+      battle.moves.set(round, roundMoves);
+      this.persist(battle);
+
+      this.broadcastToBattle(challengeId, { type: 'move_timeout', round, players: idle, policy: 'default_move' });
+      this.startRevealPhase(battle, round);
+      return;
+    }
+
+    // Forfeit the round to whoever did commit; if neither did, the round is a draw
+    const active = Array.from(battle.players).filter(p => !idle.includes(p));
+    this.broadcastToBattle(challengeId, { type: 'move_timeout', round, players: idle, policy: 'forfeit_round' });
+    this.completeRound(battle, active.length === 1 ? active[0] : null, [], idle);
+  }
+
+  private handleRevealTimeout(challengeId: string, round: number) {
+    const battle = this.battles.get(challengeId);
+    if (!battle || battle.status === 'ended') return;
+
+    battle.revealTimer = null;
+    battle.revealDeadline = null;
+
+    const roundMoves = battle.moves.get(round) ?? [];
+    const revealed = roundMoves.filter(m => m.revealedAt !== null);
+
+    this.log.info('Reveal deadline passed', { challengeId, round, revealed: revealed.length });
+
+    // Whoever revealed wins; if nobody did, neither side gets the pot
+    const winner = revealed.length === 1 ? revealed[0].playerId : null;
+    this.endBattle(battle, winner, 'reveal_timeout');
+  }
+
+  private endBattle(battle: BattleSession, winner: string | null, reason: string) {
+    this.clearRevealTimer(battle);
+    this.clearRoundTimer(battle);
+
+    battle.status = 'ended';
+    battle.winner = winner;
+    this.persist(battle);
+
+    this.broadcastToBattle(battle.challengeId, {
+      type: 'game_ended',
+      winner,
+      reason,
+      scores: Object.fromEntries(battle.scores),
+      challengeId: battle.challengeId
+    });
+
+    this.onBattleEnded?.(battle.challengeId, Array.from(battle.players), winner, reason);
+
+    setTimeout(() => this.cleanup(battle.challengeId), 30000);
+  }
+
+  private clearRevealTimer(battle: BattleSession) {
+    if (battle.revealTimer) {
+      clearTimeout(battle.revealTimer);
+      battle.revealTimer = null;
+    }
+    battle.revealDeadline = null;
+  }
+
+  private clearRoundTimer(battle: BattleSession) {
+    if (battle.roundTimer) {
+      clearTimeout(battle.roundTimer);
+      battle.roundTimer = null;
+    }
+    if (battle.roundTimerBroadcast) {
+      clearInterval(battle.roundTimerBroadcast);
+      battle.roundTimerBroadcast = null;
+    }
+    battle.roundDeadline = null;
+  }
+
+  private handleDisconnect(challengeId: string, playerId: string, ws: ClientSocket) {
+    const battle = this.battles.get(challengeId);
+    // A socket replaced by a newer one has already handed over its seat
+    if (!battle || (battle.connections.has(playerId) && battle.connections.get(playerId) !== ws)) return;
+
+    battle.connections.delete(playerId);
+
+    if (battle.status === 'ended') {
+      if (battle.connections.size === 0) {
+        this.cleanup(challengeId);
+      }
+      return;
+    }
+
+    // Pause the round clock and the reveal deadline so the absent player is not timed out while reconnecting
+    if (battle.roundDeadline !== null) {
+      battle.roundTimeRemaining = Math.max(0, battle.roundDeadline - Date.now());
+      this.clearRoundTimer(battle);
+      this.persist(battle);
+    }
+    if (battle.revealDeadline !== null) {
+      battle.revealTimeRemaining = Math.max(0, battle.revealDeadline - Date.now());
+      this.clearRevealTimer(battle);
+    }
+
+    const reconnectDeadline = Date.now() + this.timing.reconnectGrace;
+
+    this.broadcastToBattle(challengeId, {
+      type: 'player_reconnecting',
+      playerId,
+      reconnectDeadline
+    }, playerId);
+
+    battle.reconnectTimers.set(playerId, setTimeout(() => {
+      this.handleReconnectTimeout(challengeId, playerId);
+    }, this.timing.reconnectGrace));
+  }
+
+  private handleReconnectTimeout(challengeId: string, playerId: string) {
+    const battle = this.battles.get(challengeId);
+    if (!battle) return;
+
+    battle.reconnectTimers.delete(playerId);
+
+    this.log.info('Player did not reconnect', { challengeId, playerId });
+
+    this.broadcastToBattle(challengeId, {
+      type: 'opponent_left',
+      playerId
+    }, playerId);
+
+    if (battle.status === 'in_progress' || battle.status === 'ready') {
+      const remaining = Array.from(battle.players).find(p => p !== playerId);
+      const remainingConnected = remaining !== undefined && battle.connections.has(remaining);
+      this.endBattle(battle, remainingConnected ? remaining! : null, 'opponent_left');
+    } else if (battle.status === 'waiting') {
+      battle.players.delete(playerId);
+      this.persist(battle);
+    }
+
+    if (battle.connections.size === 0) {
+      this.cleanup(challengeId);
+    }
+  }
+
+  private persist(battle: BattleSession) {
+    const moves: BattleMove[] = [];
+    battle.moves.forEach(roundMoves => moves.push(...roundMoves));
+
+    this.store.saveBattle({
+      challengeId: battle.challengeId,
+      players: Array.from(battle.players),
+      status: battle.status,
+      winner: battle.winner,
+      createdAt: battle.createdAt,
+      ruleset: battle.ruleset.name,
+      currentRound: battle.currentRound,
+      scores: Object.fromEntries(battle.scores),
+      moves,
+      roundResults: battle.roundResults,
+      roundTimeRemaining: battle.roundTimeRemaining ?? (battle.roundDeadline !== null ? Math.max(0, battle.roundDeadline - Date.now()) : null),
+      consecutiveTimeouts: Object.fromEntries(battle.consecutiveTimeouts),
+      allowedPlayers: battle.allowedPlayers ? Array.from(battle.allowedPlayers) : null,
+      stakeTier: battle.stakeTier,
+      updatedAt: Date.now()
+    });
+  }
+
+  private sendTo(ws: ClientSocket, msg: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(msg));
+      metrics.messagesOut.inc({ type: msg.type });
+    }
+  }
+
+  private sendToPlayer(battle: BattleSession, playerId: string, msg: ServerMessage) {
+    this.onEvent?.(battle.challengeId, 'out', playerId, msg);
+
+    const ws = battle.connections.get(playerId);
+    if (ws) this.sendTo(ws, msg);
+  }
+
+  broadcastToBattle(id: string, msg: ServerMessage, exclude?: string) {
+    const battle = this.battles.get(id);
+    if (!battle) return;
+
+    this.onEvent?.(id, 'out', null, msg);
+
+    battle.connections.forEach((ws, pid) => {
+      if (pid !== exclude) {
+        this.sendTo(ws, msg);
+      }
+    });
+
+    if (battle.spectators.size > 0) {
+      const frame = JSON.stringify(msg);
+      battle.spectators.forEach(ws => sendSpectatorFrame(ws, frame, this.timing.spectatorDelay));
+      metrics.messagesOut.inc({ type: msg.type }, battle.spectators.size);
+    }
+
+    metrics.fanout.observe({ channel: 'battle' }, battle.connections.size - (exclude && battle.connections.has(exclude) ? 1 : 0) + battle.spectators.size);
+  }
+
+  private cleanup(id: string) {
+    const battle = this.battles.get(id);
+    if (!battle) return;
+
+    this.clearRevealTimer(battle);
+    this.clearRoundTimer(battle);
+    battle.reconnectTimers.forEach(timer => clearTimeout(timer));
+
+    battle.connections.forEach(ws => {
+      if (ws.readyState === WebSocket.OPEN) ws.close();
+    });
+    battle.spectators.forEach(ws => {
+      if (ws.readyState === WebSocket.OPEN) ws.close(1000, 'Battle closed');
+    });
+
+    this.battles.delete(id);
+    if (battle.status !== 'ended') {
+      this.store.deleteBattle(id);
+    }
+    this.log.debug('Cleaned up battle', { challengeId: id });
+  }
+
+  getBattleSummary(challengeId: string): object | null {
+    const battle = this.battles.get(challengeId);
+
+    if (!battle) {
+      const record = this.store.loadBattle(challengeId);
+      if (!record) return null;
+
+      const { moves, ...summary } = record;
+      return summary;
+    }
+
+    return {
+      challengeId: battle.challengeId,
+      status: battle.status,
+      players: Array.from(battle.players).map(playerId => ({
+        playerId,
+        connected: battle.connections.has(playerId)
+      })),
+      spectators: battle.spectators.size,
+      ruleset: battle.ruleset.name,
+      currentRound: battle.currentRound,
+      roundDeadline: battle.roundDeadline,
+      scores: Object.fromEntries(battle.scores),
+      roundResults: battle.roundResults,
+      winner: battle.winner,
+      createdAt: battle.createdAt
+    };
+  }
+
+  getBattleCount(): number {
+    return this.battles.size;
+  }
+
+  getStatusCounts(): Record<BattleSession['status'], number> {
+    const counts: Record<BattleSession['status'], number> = { waiting: 0, ready: 0, in_progress: 0, ended: 0 };
+    this.battles.forEach(battle => counts[battle.status]++);
+    return counts;
+  }
+
+  getTimerCounts(): Record<string, number> {
+    const counts = { round: 0, reveal: 0, reconnect: 0 };
+    this.battles.forEach(battle => {
+      if (battle.roundTimer) counts.round++;
+      if (battle.revealTimer) counts.reveal++;
+      counts.reconnect += battle.reconnectTimers.size;
+    });
+    return counts;
+  }
+
+  hasBattle(challengeId: string): boolean {
+    return this.battles.has(challengeId);
+  }
+
+  cancelBattle(challengeId: string): boolean {
+    const battle = this.battles.get(challengeId);
+    if (!battle || battle.status === 'ended') return false;
+
+    this.log.info('Battle cancelled by admin', { challengeId });
+    this.endBattle(battle, null, 'cancelled');
+    return true;
+  }
+
+  startCleanupTimer() {
+    setInterval(() => {
+      const now = Date.now();
+      this.battles.forEach((b, id) => {
+        if (now - b.createdAt > this.timing.expiry && b.status !== 'in_progress') {
+          this.cleanup(id);
+        } else if (b.allowedPlayers && b.status === 'waiting' && now - b.createdAt > MATCH_JOIN_TIMEOUT) {
+          // A matched opponent who never shows up voids the battle rather than handing out a free win
+          this.endBattle(b, null, 'no_show');
+        }
+      });
+    }, 60000);
+  }
+}
+
+// ============================================================================
+// MATCHMAKING
+// ============================================================================
+
+const MATCHMAKING_INTERVAL = 1000;
+const BASE_RATING_WINDOW = 100;
+const RATING_WINDOW_GROWTH = 25;
+const MAX_RATING_WINDOW = 1000;
+const DEFAULT_STAKE_TIERS = ['free', 'low', 'medium', 'high'];
+
+interface QueueEntry {
+  playerId: string;
+  ws: ClientSocket;
+  tier: string;
+  rating: number;
+  joinedAt: number;
+}
+
+// The acceptable rating gap grows by RATING_WINDOW_GROWTH every second spent waiting
+function ratingWindow(entry: QueueEntry, now: number): number {
+  const waited = (now - entry.joinedAt) / 1000;
+  return Math.min(MAX_RATING_WINDOW, BASE_RATING_WINDOW + waited * RATING_WINDOW_GROWTH);
+}
+
+class MatchmakingQueue {
+  private log = new Logger('Matchmaking');
+  private entries: Map<string, QueueEntry> = new Map();
+  private messageGuard: (ws: ClientSocket, type: string) => boolean = () => true;
+  private duplicatePolicy: DuplicatePolicy = 'replace';
+  private onMatch?: (challengeId: string, players: [string, string], tier: string) => void;
+
+  constructor(private ratingOf: (playerId: string) => number, private tiers: string[] = DEFAULT_STAKE_TIERS) { }
+
+  setMessageGuard(guard: (ws: ClientSocket, type: string) => boolean) {
+    this.messageGuard = guard;
+  }
+
+  setDuplicatePolicy(policy: DuplicatePolicy) {
+    this.duplicatePolicy = policy;
+  }
+
+  setMatchCallback(callback: (challengeId: string, players: [string, string], tier: string) => void) {
+    this.onMatch = callback;
+  }
+
+  handleConnection(ws: ClientSocket, playerId: string) {
+    ws.on('message', (data: Buffer) => {
+      // Frames still in flight on a replaced socket must not take the queue entry back
+      if (ws.readyState !== WebSocket.OPEN) return;
+
+      const parsed = parseClientMessage<MatchmakingClientMessage>(data, MATCHMAKING_MESSAGE_SCHEMAS);
+      if (!this.messageGuard(ws, parsed.ok ? parsed.message.type : '*')) return;
+      if (!parsed.ok) {
+        this.sendTo(ws, { type: 'error', code: parsed.code, message: parsed.error });
+        return;
+      }
+
+      if (parsed.message.type === 'join_queue') {
+        this.join(ws, playerId, parsed.message.tier, this.ratingOf(playerId));
+      } else {
+        this.leave(playerId, ws);
+        this.sendTo(ws, { type: 'queue_left' });
+      }
+    });
+
+    ws.on('close', () => {
+      this.leave(playerId, ws);
+    });
+  }
+
+  getQueueSizes(): Record<string, number> {
+    const sizes: Record<string, number> = Object.fromEntries(this.tiers.map(tier => [tier, 0]));
+    this.entries.forEach(entry => sizes[entry.tier]++);
+    return sizes;
+  }
+
+  startMatchTimer() {
+    setInterval(() => this.matchPlayers(), MATCHMAKING_INTERVAL);
+  }
+
+  private join(ws: ClientSocket, playerId: string, tier: string, rating: number) {
+    if (!this.tiers.includes(tier)) {
+      this.sendTo(ws, { type: 'error', code: 'INVALID_PAYLOAD', message: `Unknown stake tier; expected one of ${this.tiers.join(', ')}` });
+      return;
+    }
+
+    // A player never occupies two slots: another tab either takes over the entry or is turned away
+    const existing = this.entries.get(playerId);
+    if (existing && existing.ws !== ws && existing.ws.readyState === WebSocket.OPEN) {
+      if (this.duplicatePolicy === 'reject') {
+        ws.close(4011, 'Already connected from another session');
+        return;
+      }
+      existing.ws.close(4009, 'Replaced by a newer connection');
+    }
+
+    this.entries.set(playerId, { playerId, ws, tier, rating, joinedAt: existing?.ws === ws ? existing.joinedAt : Date.now() });
+    this.log.info('Player queued', { playerId, tier, rating });
+
+    this.sendTo(ws, { type: 'queue_joined', tier, rating, queueSize: this.getQueueSizes()[tier] });
+  }
+
+  private leave(playerId: string, ws: ClientSocket) {
+    if (this.entries.get(playerId)?.ws === ws) {
+      this.entries.delete(playerId);
+    }
+  }
+
+  // Oldest entries pick first, taking the closest rating that both sides' windows allow
+  private matchPlayers() {
+    const now = Date.now();
+    const waiting = Array.from(this.entries.values()).sort((a, b) => a.joinedAt - b.joinedAt);
+    const matched = new Set<string>();
+
+    waiting.forEach(entry => {
+      if (matched.has(entry.playerId)) return;
+
+      let best: QueueEntry | null = null;
+      waiting.forEach(candidate => {
+        if (candidate === entry || matched.has(candidate.playerId) || candidate.tier !== entry.tier) return;
+
+        const gap = Math.abs(candidate.rating - entry.rating);
+        if (gap > Math.min(ratingWindow(entry, now), ratingWindow(candidate, now))) return;
+        if (!best || gap < Math.abs(best.rating - entry.rating)) {
+          best = candidate;
+        }
+      });
+
+      if (best) {
+        matched.add(entry.playerId);
+        matched.add((best as QueueEntry).playerId);
+        this.createMatch(entry, best);
+      }
+    });
+  }
+
+  private createMatch(first: QueueEntry, second: QueueEntry) {
+    const challengeId = `mm-${randomBytes(12).toString('hex')}`;
+
+    this.entries.delete(first.playerId);
+    this.entries.delete(second.playerId);
+
+    if (this.onMatch) {
+      this.onMatch(challengeId, [first.playerId, second.playerId], first.tier);
+    }
+
+    this.log.info('Players matched', { challengeId, tier: first.tier, players: [first.playerId, second.playerId] });
+
+    [[first, second], [second, first]].forEach(([self, opponent]) => {
+      this.sendTo(self.ws, {
+        type: 'match_found',
+        challengeId,
+        opponentId: opponent.playerId,
+        tier: self.tier,
+        opponentRating: opponent.rating
+      });
+      if (self.ws.readyState === WebSocket.OPEN) {
+        self.ws.close(1000, 'Matched');
+      }
+    });
+  }
+
+  private sendTo(ws: ClientSocket, msg: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(msg));
+      metrics.messagesOut.inc({ type: msg.type });
+    }
+  }
+}
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+const AUTH_TIMEOUT = 10000;
+const SESSION_TOKEN_TTL = 15 * 60 * 1000;
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+interface AuthSession {
+  playerId: string;
+  expiresAt: number;
+}
+
+// Query parameters repeat into arrays, and iterating an array of characters would decode just like the string
+function decodeBase58(value: unknown): Buffer | null {
+  if (typeof value !== 'string') return null;
+
+  let bytes: number[] = [];
+
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) return null;
+
+    let carry = digit;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes.reverse());
+}
+
+class AuthManager {
+  private log = new Logger('AuthManager');
+  private sessions: Map<string, AuthSession> = new Map();
+  private messageGuard: (ws: WebSocket, type: string) => boolean = () => true;
+
+  setMessageGuard(guard: (ws: WebSocket, type: string) => boolean) {
+    this.messageGuard = guard;
+  }
+
+  // Solana addresses are base58-encoded ed25519 public keys
+  getPublicKey(playerId: string): KeyObject | null {
+    const raw = decodeBase58(playerId);
+    if (!raw || raw.length !== 32) return null;
+
+    try {
+      return createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: raw.toString('base64url') },
+        format: 'jwk'
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  authenticate(
+    ws: WebSocket,
+    playerId: string,
+    sessionToken: string | undefined,
+    options: ConnectionOptions,
+    onAuthenticated: () => void
+  ): void {
+    const publicKey = this.getPublicKey(playerId);
+    if (!publicKey) {
+      ws.close(1008, 'Invalid player address');
+      return;
+    }
+
+    if (sessionToken && this.consumeSessionToken(sessionToken, playerId)) {
+      this.completeAuthentication(ws, playerId, 'session', options);
+      onAuthenticated();
+      return;
+    }
+
+    const nonce = randomBytes(32).toString('hex');
+    const expiresAt = Date.now() + AUTH_TIMEOUT;
+    const challenge = AuthManager.buildChallengeMessage(playerId, nonce);
+
+    const timeout = setTimeout(() => {
+      ws.off('message', onMessage);
+      this.log.info('Authentication timed out', { playerId });
+      ws.close(1008, 'Authentication timeout');
+    }, AUTH_TIMEOUT);
+
+    const onMessage = (data: Buffer) => {
+      const parsed = parseClientMessage<AuthClientMessage>(data, AUTH_MESSAGE_SCHEMAS);
+      if (!this.messageGuard(ws, parsed.ok ? parsed.message.type : '*')) return;
+      if (!parsed.ok) {
+        this.sendTo(ws, { type: 'error', code: parsed.code, message: parsed.error });
+        return;
+      }
+
+      clearTimeout(timeout);
+      ws.off('message', onMessage);
+
+      const signature = decodeBase58(parsed.message.signature);
+      if (!signature || signature.length !== 64 || !verify(null, Buffer.from(challenge), publicKey, signature)) {
+        this.log.warn('Invalid signature', { playerId });
+        ws.close(1008, 'Authentication failed');
+        return;
+      }
+
+      this.completeAuthentication(ws, playerId, 'signature', options);
+      onAuthenticated();
+    };
+
+    ws.on('message', onMessage);
+    ws.on('close', () => clearTimeout(timeout));
+    ws.on('error', (error) => {
+      this.log.error('WebSocket error during authentication', { playerId, error });
+    });
+
+    this.sendTo(ws, {
+      type: 'auth_challenge',
+      nonce,
+      message: challenge,
+      expiresAt,
+      protocolVersion: options.protocolVersion
+    });
+  }
+
+  pruneExpiredSessions(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, token) => {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(token);
+      }
+    });
+  }
+
+  static buildChallengeMessage(playerId: string, nonce: string): string {
+    return `Sign in to Purge\nPlayer: ${playerId}\nNonce: ${nonce}`;
+  }
+
+  private completeAuthentication(
+    ws: WebSocket,
+    playerId: string,
+    method: 'signature' | 'session',
+    options: ConnectionOptions
+  ): void {
+    const sessionToken = randomBytes(32).toString('hex');
+    const expiresAt = Date.now() + SESSION_TOKEN_TTL;
+    this.sessions.set(sessionToken, { playerId, expiresAt });
+
+    this.log.info('Player authenticated', { playerId, method });
+
+    this.sendTo(ws, {
+      type: 'auth_success',
+      playerId,
+      sessionToken,
+      expiresAt,
+      protocolVersion: options.protocolVersion,
+      encoding: options.encoding
+    });
+  }
+
+  // Tokens are single-use: every successful reconnect rotates to a fresh one
+  private consumeSessionToken(token: string, playerId: string): boolean {
+    const session = this.sessions.get(token);
+    if (!session) return false;
+
+    this.sessions.delete(token);
+    return session.playerId === playerId && session.expiresAt > Date.now();
+  }
+
+  private sendTo(ws: WebSocket, msg: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(msg));
+      metrics.messagesOut.inc({ type: msg.type });
+    }
+  }
+}
+
+// ============================================================================
+// HTTP API
+// ============================================================================
+
+const MAX_BODY_SIZE = 10 * 1024;
+
+interface AdminActions {
+  endGame(gameId: number, winnerId: string | null): boolean;
+  setDeadline(gameId: number, deadline: number): { success: boolean; message: string };
+  // badRequest marks rules that failed validation, as opposed to a game that can no longer change
+  configureGame(gameId: number, lobbyType: string | null, overrides: unknown): { success: boolean; message: string; badRequest?: boolean };
+  kickPlayer(gameId: number, playerId: string): boolean;
+  cancelBattle(challengeId: string): boolean;
+  retrySettlement(key: string): boolean;
+}
+
+class HttpApi {
+  private log = new Logger('HttpApi');
+  private startedAt = Date.now();
+
+  constructor(
+    private gameManager: GameManager,
+    private battleManager: BattleManager,
+    private connectionManager: ConnectionManager,
+    private admin: AdminActions,
+    private adminToken: string | undefined,
+    private auditLog: AuditLog,
+    private replays: ReplayRecorder,
+    private ratings: RatingBook,
+    private settlements: SettlementQueue | null
+  ) { }
+
+  handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const { pathname, query } = parse(req.url || '', true);
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      const segments = (pathname || '/').split('/').filter(Boolean).map(decodeURIComponent);
+      if (req.method === 'GET' && segments[0] !== 'admin') {
+        this.handleGet(segments, query, res);
+      } else if ((req.method === 'POST' || req.method === 'GET') && segments[0] === 'admin') {
+        this.handleAdmin(req, segments.slice(1), res);
+      } else {
+        this.sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  // Long games make for large replays, so the stored lines are copied out as they are read instead of parsed as a whole
+  private streamReplay(res: ServerResponse, kind: ReplayKind, id: string, source: Readable): void {
+    let startedAt: number | null = null;
+    let endedAt: number | null = null;
+    let count = 0;
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.write(`{"kind":${JSON.stringify(kind)},"id":${JSON.stringify(id)},"events":[`);
+
+    const lines = createInterface({ input: source, crlfDelay: Infinity });
+    lines.on('line', line => {
+      let event: ReplayEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // Blank lines and a torn final append are left out, as loadReplay does
+        return;
+      }
+
+      startedAt = startedAt ?? event.at;
+      endedAt = event.at;
+      if (!res.write((count++ > 0 ? ',' : '') + line)) {
+        source.pause();
+        res.once('drain', () => source.resume());
+      }
+    });
+    lines.on('close', () => {
+      res.end(`],"startedAt":${startedAt},"endedAt":${endedAt}}`);
+    });
+
+    source.on('error', error => {
+      this.log.error('Failed to stream replay', { kind, id, error });
+      res.destroy();
+    });
+    res.on('close', () => source.destroy());
+  }
+
+  private handleError(req: IncomingMessage, res: ServerResponse, error: unknown): void {
+    if (error instanceof URIError) {
+      this.sendJson(res, 400, { error: 'Malformed URL' });
+      return;
+    }
+
+    this.log.error('Error handling request', { method: req.method, path: req.url, error });
+    if (!res.headersSent) {
+      this.sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+
+  private handleGet(segments: string[], query: ParsedUrlQuery, res: ServerResponse): void {
+    const [resource, id] = segments;
+
+    if (resource === 'metrics' && !id) {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      res.end(metricsRegistry.render());
+    } else if (resource === 'health' && !id) {
+      this.sendJson(res, 200, {
+        status: 'ok',
+        uptime: Math.round((Date.now() - this.startedAt) / 1000),
+        games: this.gameManager.listGames().length,
+        battles: this.battleManager.getBattleCount(),
+        connections: this.connectionManager.getConnectionCount()
+      });
+    } else if (resource === 'games' && !id) {
+      this.sendJson(res, 200, {
+        games: this.gameManager.listGames().map(game => ({
+          gameId: game.gameId,
+          phase: game.phase,
+          readyCount: game.readyPlayers.size,
+          playerCount: game.members.size,
+          winner: game.winner
+        }))
+      });
+    } else if (resource === 'games' && id && segments.length === 2) {
+      const game = this.gameManager.getGameState(parseInt(id));
+      if (!game) {
+        this.sendJson(res, 404, { error: 'Game not found' });
+        return;
+      }
+
+      this.sendJson(res, 200, {
+        gameId: game.gameId,
+        phase: game.phase,
+        countdownStartTime: game.countdownStartTime,
+        countdownDuration: game.countdownDuration,
+        startTime: game.startTime,
+        hostId: game.hostId,
+        deadline: game.deadline,
+        serverTime: Date.now(),
+        rules: game.rules,
+        refunds: game.refunds,
+        readyCount: game.readyPlayers.size,
+        players: Array.from(game.members).map(playerId => ({
+          playerId,
+          ready: game.readyPlayers.has(playerId),
+          connected: this.connectionManager.isConnected(playerId, game.gameId)
+        })),
+        winner: game.winner,
+        result: game.result
+      });
+    } else if (resource === 'replays' && (id === 'games' || id === 'battles') && segments.length === 3) {
+      const kind: ReplayKind = id === 'games' ? 'game' : 'battle';
+      const source = this.replays.openFinished(kind, segments[2]);
+      if (source === 'in_progress') {
+        this.sendJson(res, 409, { error: 'Replay is available once the match has ended' });
+        return;
+      }
+      if (!source) {
+        this.sendJson(res, 404, { error: 'Replay not found' });
+        return;
+      }
+
+      this.streamReplay(res, kind, segments[2], source);
+    } else if (resource === 'leaderboard' && (id === 'global' || id === 'weekly') && segments.length === 2) {
+      const requested = parseInt(query.limit as string);
+      const limit = Math.min(MAX_LEADERBOARD_SIZE, requested > 0 ? requested : DEFAULT_LEADERBOARD_SIZE);
+
+      this.sendJson(res, 200, {
+        period: id,
+        entries: this.ratings.getLeaderboard(id, limit)
+      });
+    } else if (resource === 'settlements' && (id === 'games' || id === 'battles') && segments.length === 3) {
+      const settlement = this.settlements?.get(id === 'games' ? 'game' : 'battle', segments[2]);
+      if (!settlement) {
+        this.sendJson(res, 404, { error: 'Settlement not found' });
+        return;
+      }
+
+      this.sendJson(res, 200, { ...toSettlementView(settlement), record: settlement.record });
+    } else if (resource === 'ratings' && id && segments.length === 2) {
+      this.sendJson(res, 200, this.ratings.getRating(id));
+    } else if (resource === 'battles' && id && segments.length === 2) {
+      const battle = this.battleManager.getBattleSummary(id);
+      if (!battle) {
+        this.sendJson(res, 404, { error: 'Battle not found' });
+        return;
+      }
+
+      this.sendJson(res, 200, battle);
+    } else {
+      this.sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  private handleAdmin(req: IncomingMessage, segments: string[], res: ServerResponse): void {
+    if (!this.adminToken) {
+      this.sendJson(res, 503, { error: 'Admin API is disabled' });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      this.auditLog.record({
+        action: `${req.method} /admin/${segments.join('/')}`,
+        actor: req.socket.remoteAddress || 'unknown',
+        target: 'admin api',
+        outcome: 'rejected',
+        reason: 'invalid admin token'
+      });
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      if (segments[0] === 'audit' && segments.length === 1) {
+        this.sendJson(res, 200, { entries: this.auditLog.recent() });
+      } else {
+        this.sendJson(res, 404, { error: 'Not found' });
+      }
+      return;
+    }
+
+    this.readJsonBody(req, res, body => {
+      const [resource, id, action] = segments;
+      let ok: boolean;
+
+      if (resource === 'games' && action === 'end') {
+        const winnerId = typeof body.winnerId === 'string' ? body.winnerId : null;
+        ok = this.admin.endGame(parseInt(id), winnerId);
+      } else if (resource === 'games' && action === 'kick') {
+        if (typeof body.playerId !== 'string') {
+          this.sendJson(res, 400, { error: 'playerId is required' });
+          return;
+        }
+        ok = this.admin.kickPlayer(parseInt(id), body.playerId);
+      } else if (resource === 'games' && action === 'deadline') {
+        const deadline = resolveDeadline(body);
+        if (deadline === null) {
+          this.sendJson(res, 400, { error: 'exactly one of delay or deadline is required' });
+          return;
+        }
+        const result = this.admin.setDeadline(parseInt(id), deadline);
+        if (!result.success) {
+          this.sendJson(res, 409, { ok: false, error: result.message });
+          return;
+        }
+        ok = true;
+      } else if (resource === 'games' && action === 'rules') {
+        if (body.lobbyType !== undefined && typeof body.lobbyType !== 'string') {
+          this.sendJson(res, 400, { error: 'lobbyType must be a string' });
+          return;
+        }
+        const result = this.admin.configureGame(parseInt(id), body.lobbyType ?? null, body.rules ?? {});
+        if (!result.success) {
+          this.sendJson(res, result.badRequest ? 400 : 409, { ok: false, error: result.message });
+          return;
+        }
+        ok = true;
+      } else if (resource === 'battles' && action === 'cancel') {
+        ok = this.admin.cancelBattle(id);
+      } else if (resource === 'settlements' && action === 'retry') {
+        ok = this.admin.retrySettlement(id);
+      } else {
+        this.sendJson(res, 404, { error: 'Not found' });
+        return;
+      }
+
+      this.auditLog.record({
+        action: `admin ${action}`,
+        actor: 'admin',
+        target: `${resource}/${id}`,
+        outcome: ok ? 'applied' : 'rejected',
+        reason: ok ? 'admin token' : 'not applicable in current state'
+      });
+      this.sendJson(res, ok ? 200 : 409, { ok });
+    });
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(this.adminToken!);
+
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  private readJsonBody(req: IncomingMessage, res: ServerResponse, callback: (body: Record<string, unknown>) => void): void {
+    let raw = '';
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      raw += chunk.toString();
+      if (raw.length > MAX_BODY_SIZE && !tooLarge) {
+        tooLarge = true;
+        this.sendJson(res, 413, { error: 'Request body too large' });
+        req.destroy();
+      }
+    });
+
+    req.on('end', () => {
+      if (tooLarge) return;
+
+      let body: unknown;
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        this.sendJson(res, 400, { error: 'Invalid JSON body' });
+        return;
+      }
+
+      if (!isJsonObject(body)) {
+        this.sendJson(res, 400, { error: 'JSON body must be an object' });
+        return;
+      }
+
+      // The body arrives after handleRequest's try/catch has returned, so the callback needs its own
+      try {
+        callback(body);
+      } catch (error) {
+        this.handleError(req, res, error);
+      }
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+// ============================================================================
+// BACKPLANE
+// ============================================================================
+
+const OWNERSHIP_TTL = 10000;
+const OWNERSHIP_RENEW_INTERVAL = 3000;
+const REDIS_RECONNECT_DELAY = 1000;
+
+interface Backplane {
+  readonly nodeId: string;
+  publish(channel: string, message: string): void;
+  subscribe(channel: string, handler: (message: string) => void): void;
+  // Takes or renews the lease on key unless another node holds it; reports the holder, or null if unknown
+  claim(key: string, ttl: number, callback: (owner: string | null) => void): void;
+  // Reports the lease holder without claiming, or null if nobody holds it; skipped when the backplane is unreachable
+  lookup(key: string, callback: (owner: string | null) => void): void;
+  release(key: string): void;
+  close(): void;
+}
+
+interface InProcessBus {
+  emitter: EventEmitter;
+  leases: Map<string, { owner: string; expiresAt: number }>;
+}
+
+function createInProcessBus(): InProcessBus {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  return { emitter, leases: new Map() };
+}
+
+// Single-node default; nodes sharing one bus behave like a cluster, which is handy for local testing
+class InProcessBackplane implements Backplane {
+  private handlers: [string, (message: string) => void][] = [];
+
+  constructor(readonly nodeId: string, private bus: InProcessBus = createInProcessBus()) { }
+
+  publish(channel: string, message: string): void {
+    setImmediate(() => this.bus.emitter.emit(channel, message));
+  }
+
+  subscribe(channel: string, handler: (message: string) => void): void {
+    this.bus.emitter.on(channel, handler);
+    this.handlers.push([channel, handler]);
+  }
+
+  claim(key: string, ttl: number, callback: (owner: string | null) => void): void {
+    const now = Date.now();
+    const lease = this.bus.leases.get(key);
+
+    if (!lease || lease.expiresAt <= now || lease.owner === this.nodeId) {
+      this.bus.leases.set(key, { owner: this.nodeId, expiresAt: now + ttl });
+      callback(this.nodeId);
+    } else {
+      callback(lease.owner);
+    }
+  }
+
+  lookup(key: string, callback: (owner: string | null) => void): void {
+    const lease = this.bus.leases.get(key);
+    callback(lease && lease.expiresAt > Date.now() ? lease.owner : null);
+  }
+
+  release(key: string): void {
+    if (this.bus.leases.get(key)?.owner === this.nodeId) {
+      this.bus.leases.delete(key);
+    }
+  }
+
+  close(): void {
+    this.handlers.forEach(([channel, handler]) => this.bus.emitter.off(channel, handler));
+    this.handlers = [];
+  }
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+function encodeResp(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+// Returns null while the buffer holds only part of a reply
+function parseResp(buffer: Buffer, offset: number): { value: RespValue; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new Error(line), next };
+    case ':':
+      return { value: parseInt(line), next };
+    case '$': {
+      const length = parseInt(line);
+      if (length < 0) return { value: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line);
+      if (count < 0) return { value: null, next };
+
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseResp(buffer, cursor);
+        if (!item) return null;
+        items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP prefix: ${prefix}`);
+  }
+}
+
+// Minimal RESP2 client: commands are pipelined and answered in order; subscriber connections get pushes instead
+class RespConnection {
+  private log = new Logger('RespConnection');
+  private socket!: Socket;
+  private buffer = Buffer.alloc(0);
+  private pending: ((reply: RespValue) => void)[] = [];
+  private closed = false;
+
+  constructor(
+    private host: string,
+    private port: number,
+    private onPush?: (reply: RespValue) => void,
+    private onConnect?: () => void
+  ) {
+    this.open();
+  }
+
+  send(args: string[], callback?: (reply: RespValue) => void): void {
+    if (this.socket.destroyed) {
+      callback?.(new Error('Connection lost'));
+      return;
+    }
+
+    if (!this.onPush) {
+      this.pending.push(callback ?? (() => { }));
+    }
+    this.socket.write(encodeResp(args));
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket.destroy();
+  }
+
+  private open(): void {
+    this.buffer = Buffer.alloc(0);
+    this.socket = netConnect(this.port, this.host, () => {
+      this.log.info('Connected', { host: this.host, port: this.port });
+      this.onConnect?.();
+    });
+
+    this.socket.on('data', (chunk: Buffer) => this.handleData(chunk));
+    this.socket.on('error', (error) => {
+      this.log.error('Connection error', { host: this.host, port: this.port, error: error.message });
+    });
+    this.socket.on('close', () => {
+      this.pending.splice(0).forEach(callback => callback(new Error('Connection lost')));
+      if (this.closed) return;
+
+      setTimeout(() => this.open(), REDIS_RECONNECT_DELAY);
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let parsed = parseResp(this.buffer, 0);
+    while (parsed) {
+      this.buffer = this.buffer.subarray(parsed.next);
+
+      if (this.onPush) {
+        this.onPush(parsed.value);
+      } else {
+        this.pending.shift()?.(parsed.value);
+      }
+
+      parsed = this.buffer.length > 0 ? parseResp(this.buffer, 0) : null;
+    }
+  }
+}
+
+// Works against Redis or anything speaking its protocol; only SET NX PX, GET, PEXPIRE, DEL and pub/sub are used
+class RedisBackplane implements Backplane {
+  private log = new Logger('RedisBackplane');
+  private commands: RespConnection;
+  private subscriber: RespConnection;
+  private handlers: Map<string, ((message: string) => void)[]> = new Map();
+
+  constructor(readonly nodeId: string, url: string) {
+    const { hostname, port } = new URL(url);
+    const redisPort = parseInt(port || '6379');
+
+    this.commands = new RespConnection(hostname, redisPort);
+    this.subscriber = new RespConnection(
+      hostname,
+      redisPort,
+      reply => this.handlePush(reply),
+      () => this.handlers.forEach((_, channel) => this.subscriber.send(['SUBSCRIBE', channel]))
+    );
+  }
 
-        default:
-          console.log(`[MessageHandler] Unknown message type: ${message.type}`);
-      }
-    } catch (error) {
-      console.error('[MessageHandler] Error processing message:', error);
+  publish(channel: string, message: string): void {
+    this.commands.send(['PUBLISH', channel, message]);
+  }
+
+  subscribe(channel: string, handler: (message: string) => void): void {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, []);
+      this.subscriber.send(['SUBSCRIBE', channel]);
     }
+    this.handlers.get(channel)!.push(handler);
   }
 
-  private handleHeartbeat(playerId: string, gameId: number): void {
-    this.connectionManager.updateHeartbeat(playerId, gameId);
+  claim(key: string, ttl: number, callback: (owner: string | null) => void): void {
+    this.commands.send(['SET', key, this.nodeId, 'NX', 'PX', String(ttl)], reply => {
+      if (reply === 'OK') {
+        callback(this.nodeId);
+        return;
+      }
+      if (reply instanceof Error) {
+        this.log.error('Claim failed', { key, error: reply.message });
+        callback(null);
+        return;
+      }
+
+      this.commands.send(['GET', key], owner => {
+        if (owner === this.nodeId) {
+          this.commands.send(['PEXPIRE', key, String(ttl)]);
+          callback(this.nodeId);
+        } else {
+          callback(typeof owner === 'string' ? owner : null);
+        }
+      });
+    });
   }
 
-  private handleMarkReady(playerId: string, gameId: number): void {
-    this.gameManager.markPlayerReady(gameId, playerId);
+  lookup(key: string, callback: (owner: string | null) => void): void {
+    this.commands.send(['GET', key], owner => {
+      if (owner instanceof Error) {
+        this.log.error('Lookup failed', { key, error: owner.message });
+        return;
+      }
+      callback(typeof owner === 'string' ? owner : null);
+    });
+  }
 
-    const game = this.gameManager.getGameState(gameId);
-    if (game) {
-      this.broadcastGameState(gameId);
-    }
+  release(key: string): void {
+    this.commands.send(['GET', key], owner => {
+      if (owner === this.nodeId) {
+        this.commands.send(['DEL', key]);
+      }
+    });
   }
 
-  private handleStartGame(playerId: string, gameId: number): void {
-    console.log(`[MessageHandler] Player ${playerId.slice(0, 8)} requesting game start`);
+  close(): void {
+    this.commands.close();
+    this.subscriber.close();
+  }
 
-    const result = this.gameManager.startGame(gameId);
+  private handlePush(reply: RespValue): void {
+    if (!Array.isArray(reply) || reply[0] !== 'message') return;
 
-    if (result.success && result.gameState) {
-      this.broadcastGameState(gameId);
+    const [, channel, message] = reply;
+    this.handlers.get(channel as string)?.forEach(handler => handler(message as string));
+  }
+}
 
-      if (result.gameState.phase === 'ended') {
-        this.connectionManager.broadcastToGame(gameId, {
-          type: 'winner',
-          winnerId: result.gameState.winner
-        });
+interface ClusterTarget {
+  kind: 'game' | 'battle' | 'matchmaking';
+  id: string;
+  // null for spectators
+  playerId: string | null;
+  options?: ConnectionOptions;
+}
+
+type ClusterFrame =
+  | { type: 'attach'; connId: string; origin: string; target: ClusterTarget }
+  | { type: 'frame'; connId: string; data: string }
+  | { type: 'detach'; connId: string }
+  | { type: 'deliver'; connId: string; data: string; binary?: boolean }
+  | { type: 'close'; connId: string; code?: number; reason?: string }
+  | { type: 'latency'; connId: string; rtt: number };
+
+// Stands in on the owning node for a socket held by another node, so the managers never know the difference
+class RemoteSocket extends EventEmitter implements ClientSocket {
+  readyState: number = WebSocket.OPEN;
+
+  constructor(private connId: string, private origin: string, private router: ClusterRouter) {
+    super();
+  }
+
+  send(data: string | Buffer): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    const binary = Buffer.isBuffer(data);
+    this.router.sendFrame(this.origin, {
+      type: 'deliver',
+      connId: this.connId,
+      data: binary ? data.toString('base64') : data,
+      binary
+    });
+  }
+
+  close(code?: number, reason?: string): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    this.router.sendFrame(this.origin, { type: 'close', connId: this.connId, code, reason });
+    this.handleDetach(code ?? 1000, reason ?? '');
+  }
+
+  receive(data: string): void {
+    if (this.readyState === WebSocket.OPEN) {
+      this.emit('message', Buffer.from(data));
+    }
+  }
+
+  handleDetach(code: number = 1001, reason: string = ''): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close', code, Buffer.from(reason));
+  }
+}
+
+// Every game and battle runs on exactly one node, the lease holder; other nodes relay their sockets to it
+class ClusterRouter {
+  private log = new Logger('ClusterRouter');
+  private relays: Map<string, WebSocket> = new Map();
+  private relayTargets: WeakMap<WebSocket, { connId: string; owner: string; key: string }> = new WeakMap();
+  private remotes: Map<string, RemoteSocket> = new Map();
+  private owned: Map<string, ClusterTarget> = new Map();
+  private nextConnId = 0;
+  private onAttach?: (ws: ClientSocket, target: ClusterTarget) => void;
+  private onLatency?: (ws: ClientSocket, rtt: number) => void;
+  private isActive?: (target: ClusterTarget) => boolean;
+
+  constructor(private backplane: Backplane) {
+    backplane.subscribe(this.nodeChannel(backplane.nodeId), message => {
+      try {
+        this.handleFrame(JSON.parse(message));
+      } catch (error) {
+        this.log.error('Error handling frame', { error });
       }
+    });
+  }
+
+  get nodeId(): string {
+    return this.backplane.nodeId;
+  }
+
+  setLatencyCallback(callback: (ws: ClientSocket, rtt: number) => void) {
+    this.onLatency = callback;
+  }
+
+  // Pings only reach the node holding the real socket, so RTT for relayed players is forwarded to the owner
+  reportLatency(ws: WebSocket, rtt: number): void {
+    const relay = this.relayTargets.get(ws);
+    if (relay) {
+      this.sendFrame(relay.owner, { type: 'latency', connId: relay.connId, rtt });
     } else {
-      this.connectionManager.sendToPlayer(playerId, gameId, {
-        type: 'error',
-        message: result.message
-      });
+      this.onLatency?.(ws, rtt);
     }
   }
 
-  private handlePlayerUpdate(playerId: string, gameId: number, state: PlayerState): void {
-    this.gameManager.updatePlayerState(gameId, playerId, state);
+  setAttachCallback(callback: (ws: ClientSocket, target: ClusterTarget) => void) {
+    this.onAttach = callback;
+  }
 
-    this.connectionManager.broadcastToGame(
-      gameId,
-      {
-        type: 'update',
-        playerId,
-        data: state
-      },
-      playerId
-    );
+  setActivityCheck(callback: (target: ClusterTarget) => boolean) {
+    this.isActive = callback;
   }
 
-  private handleEliminated(playerId: string, gameId: number): void {
-    console.log(`[MessageHandler] Player ${playerId.slice(0, 8)} eliminated`);
+  // Hands an authenticated socket to whichever node owns its game, claiming the game if nobody does
+  route(ws: WebSocket, target: ClusterTarget): void {
+    const early: Buffer[] = [];
+    const buffer = (data: Buffer) => early.push(data);
+    ws.on('message', buffer);
+
+    const key = this.ownershipKey(target);
+    this.backplane.claim(key, OWNERSHIP_TTL, owner => {
+      ws.off('message', buffer);
+      if (ws.readyState !== WebSocket.OPEN) return;
+
+      // With the backplane unreachable the node serves the game itself rather than dropping players
+      if (owner === null || owner === this.nodeId) {
+        this.owned.set(key, { ...target, playerId: null });
+        this.onAttach!(ws, target);
+      } else {
+        this.relay(ws, owner, target);
+      }
 
-    this.connectionManager.broadcastToGame(gameId, {
-      type: 'eliminated',
-      playerId
+      early.forEach(data => ws.emit('message', data));
     });
+  }
 
-    const game = this.gameManager.getGameState(gameId);
-    if (game && game.phase === 'active') {
-      const alivePlayers = Array.from(game.players.values()).filter(p => p.alive);
-
-      if (alivePlayers.length <= 1 && alivePlayers.length > 0) {
-        const winner = alivePlayers[0];
-        this.gameManager.declareWinner(gameId, winner.id);
-        this.connectionManager.broadcastToGame(gameId, {
-          type: 'winner',
-          winnerId: winner.id
-        });
+  // Claims a game this node already holds state for, e.g. after recovering it from disk
+  adopt(target: ClusterTarget): void {
+    const key = this.ownershipKey(target);
+    this.backplane.claim(key, OWNERSHIP_TTL, owner => {
+      if (owner === null || owner === this.nodeId) {
+        this.owned.set(key, target);
+      } else {
+        this.log.warn('Recovered target is owned by another node', { key, owner });
       }
-    }
+    });
   }
 
-  private handleWinner(gameId: number, winnerId: string): void {
-    console.log(`[MessageHandler] Winner declared: ${winnerId.slice(0, 8)}`);
+  sendFrame(nodeId: string, frame: ClusterFrame): void {
+    this.backplane.publish(this.nodeChannel(nodeId), JSON.stringify(frame));
+  }
 
-    this.gameManager.declareWinner(gameId, winnerId);
+  startLeaseRenewal(): void {
+    setInterval(() => {
+      this.owned.forEach((target, key) => {
+        if (this.isActive && !this.isActive(target)) {
+          this.owned.delete(key);
+          this.backplane.release(key);
+          return;
+        }
 
-    this.connectionManager.broadcastToGame(gameId, {
-      type: 'winner',
-      winnerId
+        this.backplane.claim(key, OWNERSHIP_TTL, owner => {
+          if (owner !== null && owner !== this.nodeId) {
+            this.log.warn('Lost ownership', { key, owner });
+            this.owned.delete(key);
+          }
+        });
+      });
+      this.checkRelayOwners();
+    }, OWNERSHIP_RENEW_INTERVAL);
+  }
+
+  // A relay is only as good as its owner: once the lease lapses or moves, clients are sent away to reconnect and reclaim the game
+  private checkRelayOwners(): void {
+    const keys = new Set<string>();
+    this.relays.forEach(ws => {
+      const relay = this.relayTargets.get(ws);
+      if (relay) keys.add(relay.key);
+    });
+
+    keys.forEach(key => {
+      this.backplane.lookup(key, holder => {
+        this.relays.forEach(ws => {
+          const relay = this.relayTargets.get(ws);
+          if (!relay || relay.key !== key || relay.owner === holder || ws.readyState !== WebSocket.OPEN) return;
+
+          this.log.warn('Relayed owner lost its lease', { key, owner: relay.owner, holder, connId: relay.connId });
+          ws.close(1012, 'Game owner changed, reconnect');
+        });
+      });
     });
   }
 
-  private broadcastGameState(gameId: number): void {
-    const game = this.gameManager.getGameState(gameId);
-    if (!game) return;
+  private relay(ws: WebSocket, owner: string, target: ClusterTarget): void {
+    const connId = `${this.nodeId}:${this.nextConnId++}`;
+    this.relays.set(connId, ws);
+    this.relayTargets.set(ws, { connId, owner, key: this.ownershipKey(target) });
 
-    this.connectionManager.broadcastToGame(gameId, {
-      type: 'game_state_update',
-      gameState: {
-        phase: game.phase,
-        countdownStartTime: game.countdownStartTime,
-        countdownDuration: game.countdownDuration,
-        readyPlayers: game.readyPlayers.size,
-        totalPlayers: this.connectionManager.getGamePlayerIds(gameId).length
+    this.log.info('Relaying connection', { kind: target.kind, id: target.id, playerId: target.playerId, connId, owner });
+
+    this.sendFrame(owner, { type: 'attach', connId, origin: this.nodeId, target });
+
+    ws.on('message', (data: Buffer) => {
+      this.sendFrame(owner, { type: 'frame', connId, data: data.toString() });
+    });
+
+    ws.on('close', () => {
+      if (this.relays.delete(connId)) {
+        this.sendFrame(owner, { type: 'detach', connId });
       }
     });
   }
+
+  private handleFrame(frame: ClusterFrame): void {
+    switch (frame.type) {
+      case 'attach': {
+        const remote = new RemoteSocket(frame.connId, frame.origin, this);
+        this.remotes.set(frame.connId, remote);
+        remote.on('close', () => this.remotes.delete(frame.connId));
+
+        this.owned.set(this.ownershipKey(frame.target), { ...frame.target, playerId: null });
+        this.onAttach!(remote, frame.target);
+        break;
+      }
+
+      case 'frame':
+        this.remotes.get(frame.connId)?.receive(frame.data);
+        break;
+
+      case 'detach':
+        this.remotes.get(frame.connId)?.handleDetach();
+        break;
+
+      case 'deliver': {
+        const ws = this.relays.get(frame.connId);
+        if (ws && ws.readyState === WebSocket.OPEN) {
+          ws.send(frame.binary ? Buffer.from(frame.data, 'base64') : frame.data);
+        }
+        break;
+      }
+
+      case 'latency': {
+        const remote = this.remotes.get(frame.connId);
+        if (remote) {
+          this.onLatency?.(remote, frame.rtt);
+        }
+        break;
+      }
+
+      case 'close': {
+        const ws = this.relays.get(frame.connId);
+        this.relays.delete(frame.connId);
+        if (ws && ws.readyState === WebSocket.OPEN) {
+          ws.close(frame.code, frame.reason);
+        }
+        break;
+      }
+    }
+  }
+
+  private ownershipKey(target: ClusterTarget): string {
+    return `purge:owner:${target.kind}:${target.id}`;
+  }
+
+  private nodeChannel(nodeId: string): string {
+    return `purge:node:${nodeId}`;
+  }
 }
 
 // ============================================================================
-// BATTLE MANAGER
+// CONFIGURATION
 // ============================================================================
 
-class BattleManager {
-  private battles: Map<string, BattleSession> = new Map();
+const DEFAULT_PING_INTERVAL = 10000;
+const DEFAULT_STALE_TIMEOUT = 30000;
+const DEFAULT_HEALTH_CHECK_INTERVAL = 30000;
+const MAX_BATTLE_BEST_OF = 15;
+
+const configLog = new Logger('Config');
+
+interface ServerConfig {
+  rules: GameRules;
+  // Named rule sets an operator can apply to a lobby, e.g. "ranked" or "casual"
+  lobbyTypes: Record<string, GameRules>;
+  battleBestOf: number;
+  battleExpiry: number;
+  battleRoundTimeout: number;
+  battleTimeoutPolicy: BattleTimingOptions['timeoutPolicy'];
+  // A player who lets this many rounds in a row time out forfeits the battle
+  battleMaxConsecutiveTimeouts: number;
+  pingInterval: number;
+  // Sockets that have not answered a ping for this long are terminated
+  staleTimeout: number;
+  healthCheckInterval: number;
+  duplicateConnections: DuplicatePolicy;
+}
 
-  handleConnection(ws: WebSocket, challengeId: string, playerId: string) {
-    let battle = this.battles.get(challengeId);
+// Reads the JSON file at CONFIG_FILE over the built-in defaults; a bad value stops startup instead of being ignored
+function loadServerConfig(path: string | undefined): ServerConfig {
+  const config: ServerConfig = {
+    rules: DEFAULT_GAME_RULES,
+    lobbyTypes: {},
+    battleBestOf: 3,
+    battleExpiry: DEFAULT_BATTLE_TIMING.expiry,
+    battleRoundTimeout: DEFAULT_BATTLE_TIMING.roundTimeout,
+    battleTimeoutPolicy: DEFAULT_BATTLE_TIMING.timeoutPolicy,
+    battleMaxConsecutiveTimeouts: DEFAULT_BATTLE_TIMING.maxConsecutiveTimeouts,
+    pingInterval: DEFAULT_PING_INTERVAL,
+    staleTimeout: DEFAULT_STALE_TIMEOUT,
+    healthCheckInterval: DEFAULT_HEALTH_CHECK_INTERVAL,
+    duplicateConnections: 'replace'
+  };
+  if (!path) return config;
+
+  const file = JSON.parse(readFileSync(path, 'utf8'));
+  const errors: string[] = [];
+
+  const integer = (value: unknown, name: string, min: number, max: number, check?: (n: number) => boolean): number | null => {
+    if (value === undefined) return null;
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max || (check && !check(value as number))) {
+      errors.push(`${name} must be an integer between ${min} and ${max}`);
+      return null;
+    }
+    return value as number;
+  };
 
-    if (!battle) {
-      battle = {
-        challengeId,
-        players: new Set(),
-        connections: new Map(),
-        moves: new Map(),
-        status: 'waiting',
-        winner: null,
-        createdAt: Date.now()
-      };
-      this.battles.set(challengeId, battle);
-      console.log(`[BattleManager] Created battle: ${challengeId}`);
+  Object.keys(file).forEach(key => {
+    if (!['rules', 'lobbyTypes', 'battle', 'pingInterval', 'staleTimeout', 'healthCheckInterval', 'duplicateConnections'].includes(key)) {
+      errors.push(`unknown setting: ${key}`);
     }
+  });
 
-    battle.players.add(playerId);
-    battle.connections.set(playerId, ws);
+  if (file.rules !== undefined) {
+    const resolved = resolveGameRules(file.rules, DEFAULT_GAME_RULES);
+    if (resolved.ok) config.rules = resolved.rules;
+    else errors.push(...resolved.errors.map(error => `rules: ${error}`));
+  }
 
-    this.sendTo(ws, {
-      type: 'player_joined',
-      playerId,
-      playersCount: battle.players.size,
-      challengeId
+  Object.entries(file.lobbyTypes ?? {}).forEach(([name, overrides]) => {
+    const resolved = resolveGameRules(overrides, config.rules);
+    if (resolved.ok) config.lobbyTypes[name] = resolved.rules;
+    else errors.push(...resolved.errors.map(error => `lobbyTypes.${name}: ${error}`));
+  });
+
+  const battle = file.battle ?? {};
+  config.battleBestOf = integer(battle.bestOf, 'battle.bestOf', 1, MAX_BATTLE_BEST_OF, n => n % 2 === 1) ?? config.battleBestOf;
+  config.battleExpiry = integer(battle.expiry, 'battle.expiry', 60000, 24 * 60 * 60 * 1000) ?? config.battleExpiry;
+  config.battleRoundTimeout = integer(battle.roundTimeout, 'battle.roundTimeout', 5000, 10 * 60 * 1000) ?? config.battleRoundTimeout;
+  config.battleMaxConsecutiveTimeouts = integer(battle.maxConsecutiveTimeouts, 'battle.maxConsecutiveTimeouts', 1, MAX_BATTLE_BEST_OF) ?? config.battleMaxConsecutiveTimeouts;
+  if (battle.timeoutPolicy === 'forfeit_round' || battle.timeoutPolicy === 'default_move') {
+    config.battleTimeoutPolicy = battle.timeoutPolicy;
+  } else if (battle.timeoutPolicy !== undefined) {
+    errors.push('battle.timeoutPolicy must be forfeit_round or default_move');
+  }
+  config.pingInterval = integer(file.pingInterval, 'pingInterval', 1000, 60000) ?? config.pingInterval;
+  config.staleTimeout = integer(file.staleTimeout, 'staleTimeout', 5000, 10 * 60 * 1000) ?? config.staleTimeout;
+  if (config.staleTimeout <= config.pingInterval) {
+    errors.push('staleTimeout must be longer than pingInterval');
+  }
+  config.healthCheckInterval = integer(file.healthCheckInterval, 'healthCheckInterval', 1000, 10 * 60 * 1000) ?? config.healthCheckInterval;
+
+  if (file.duplicateConnections === 'replace' || file.duplicateConnections === 'reject') {
+    config.duplicateConnections = file.duplicateConnections;
+  } else if (file.duplicateConnections !== undefined) {
+    errors.push('duplicateConnections must be replace or reject');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${path}: ${errors.join('; ')}`);
+  }
+
+  configLog.info('Loaded config file', { path, lobbyTypes: Object.keys(config.lobbyTypes) });
+  return config;
+}
+
+// Numeric environment settings are held to the same standard as the config file: garbage stops startup
+function readIntegerEnv(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be an integer between ${min} and ${max}, got ${raw}`);
+  }
+  return value;
+}
+
+// ============================================================================
+// MAIN UNIFIED SERVER
+// ============================================================================
+
+class UnifiedServer {
+  private log = new Logger('Server');
+  private wss: WebSocketServer;
+  private gameManager: GameManager;
+  private connectionManager: ConnectionManager;
+  private messageHandler: MessageHandler;
+  private battleManager: BattleManager;
+  private authManager: AuthManager;
+  private matchmaking: MatchmakingQueue;
+  private config: ServerConfig;
+  private liveness: LivenessMonitor;
+  private ratings: RatingBook;
+  // null when no payout adapter is configured
+  private settlements: SettlementQueue | null;
+  private auditLog: AuditLog;
+  private cluster: ClusterRouter;
+  private floodGuard: FloodGuard;
+  private trustProxy: boolean;
+  private replays: ReplayRecorder;
+  private gameDeadlineTimers: Map<number, NodeJS.Timeout> = new Map();
+  private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+  private reconnectGracePeriod: number;
+
+  constructor(port: number = 3001) {
+    this.reconnectGracePeriod = readIntegerEnv('RECONNECT_GRACE_MS', DEFAULT_BATTLE_TIMING.reconnectGrace, 1000, 10 * 60 * 1000);
+
+    this.config = loadServerConfig(process.env.CONFIG_FILE);
+
+    const spectatorDelay = readIntegerEnv('SPECTATOR_DELAY_MS', 0, 0, 5 * 60 * 1000);
+    const store = new FileGameStore(process.env.DATA_DIR || './data');
+
+    const nodeId = process.env.NODE_ID || randomBytes(6).toString('hex');
+    const backplane: Backplane = process.env.REDIS_URL
+      ? new RedisBackplane(nodeId, process.env.REDIS_URL)
+      : new InProcessBackplane(nodeId);
+    this.cluster = new ClusterRouter(backplane);
+
+    this.replays = new ReplayRecorder(store);
+    this.gameManager = new GameManager(new ResultSigner(process.env.RESULT_SIGNING_KEY), store, this.config.rules);
+    this.connectionManager = new ConnectionManager(spectatorDelay);
+    this.auditLog = new AuditLog();
+    this.messageHandler = new MessageHandler(this.gameManager, this.connectionManager, this.auditLog);
+    this.battleManager = new BattleManager(store, () => new RockPaperScissorsRuleset(this.config.battleBestOf), {
+      ...DEFAULT_BATTLE_TIMING,
+      roundTimeout: this.config.battleRoundTimeout,
+      timeoutPolicy: this.config.battleTimeoutPolicy,
+      maxConsecutiveTimeouts: this.config.battleMaxConsecutiveTimeouts,
+      reconnectGrace: this.reconnectGracePeriod,
+      spectatorDelay,
+      expiry: this.config.battleExpiry
     });
+    this.authManager = new AuthManager();
+    this.ratings = new RatingBook(store);
+    this.settlements = this.createSettlementQueue(store);
+    this.matchmaking = new MatchmakingQueue(playerId => this.ratings.getRating(playerId).rating, process.env.MATCHMAKING_TIERS
+      ? process.env.MATCHMAKING_TIERS.split(',').map(tier => tier.trim()).filter(Boolean)
+      : DEFAULT_STAKE_TIERS);
+    this.liveness = new LivenessMonitor(this.config.pingInterval, this.config.staleTimeout);
+    this.floodGuard = new FloodGuard(readIntegerEnv('MAX_CONNECTIONS_PER_IP', DEFAULT_MAX_CONNECTIONS_PER_IP, 1, 10000));
+    this.trustProxy = process.env.TRUST_PROXY === 'true';
+
+    this.authManager.setMessageGuard((ws, type) => this.floodGuard.allow(ws, type));
+    this.battleManager.setMessageGuard((ws, type) => this.floodGuard.allow(ws, type));
+    this.matchmaking.setMessageGuard((ws, type) => this.floodGuard.allow(ws, type));
+    this.battleManager.setDuplicatePolicy(this.config.duplicateConnections);
+    this.matchmaking.setDuplicatePolicy(this.config.duplicateConnections);
+
+    const httpApi = new HttpApi(this.gameManager, this.battleManager, this.connectionManager, {
+      endGame: (gameId, winnerId) => this.gameManager.forceEndGame(gameId, winnerId, 'admin'),
+      setDeadline: (gameId, deadline) => this.applyDeadline(gameId, deadline),
+      configureGame: (gameId, lobbyType, overrides) => this.configureGame(gameId, lobbyType, overrides),
+      kickPlayer: (gameId, playerId) => this.kickPhase3Player(gameId, playerId),
+      cancelBattle: (challengeId) => this.battleManager.cancelBattle(challengeId),
+      retrySettlement: (key) => this.settlements?.retry(key) ?? false
+    }, process.env.ADMIN_TOKEN, this.auditLog, this.replays, this.ratings, this.settlements);
+
+    const server = createServer((req, res) => httpApi.handleRequest(req, res));
+    this.wss = new WebSocketServer({ server, maxPayload: MAX_MESSAGE_SIZE });
 
-    this.broadcastToBattle(challengeId, {
-      type: 'player_joined',
-      playerId,
-      playersCount: battle.players.size
-    }, playerId);
+    this.gameManager.setGameStateChangeCallback((gameId) => {
+      this.broadcastGameState(gameId);
+    });
 
-    if (battle.players.size === 2 && battle.status === 'waiting') {
-      battle.status = 'ready';
-      this.broadcastToBattle(challengeId, {
-        type: 'game_ready',
-        challengeId,
-        players: Array.from(battle.players)
+    this.connectionManager.setMessageSentCallback((gameId, playerId, message) => {
+      this.replays.record('game', String(gameId), 'out', playerId, message);
+    });
+
+    this.battleManager.setEventCallback((challengeId, direction, playerId, message) => {
+      this.replays.record('battle', challengeId, direction, playerId, message);
+    });
+
+    this.gameManager.setSnapshotCallback((gameId, snapshot) => {
+      this.connectionManager.broadcastSnapshot(gameId, snapshot);
+    });
+
+    this.gameManager.setEliminationCallback((gameId, placement) => {
+      this.connectionManager.broadcastToGame(gameId, {
+        type: 'eliminated',
+        ...placement
       });
-      setTimeout(() => {
-        const b = this.battles.get(challengeId);
-        if (b) b.status = 'in_progress';
-      }, 1000);
-    }
+    });
 
-    ws.on('message', (data: Buffer) => {
-      try {
-        const msg = JSON.parse(data.toString());
-        this.handleMessage(challengeId, playerId, msg);
-      } catch (e) {
-        console.error('[BattleManager] Parse error:', e);
+    this.gameManager.setLobbyCancelledCallback((gameId, reason, refunds) => {
+      const game = this.gameManager.getGameState(gameId)!;
+      this.connectionManager.broadcastToGame(gameId, {
+        type: 'lobby_cancelled',
+        reason,
+        minPlayers: game.rules.minPlayers,
+        readyPlayers: game.readyPlayers.size,
+        refunds
+      });
+      this.settleGame(gameId);
+    });
+
+    this.gameManager.setPhaseChangedCallback((gameId, phase, previous) => {
+      this.connectionManager.broadcastToGame(gameId, { type: 'phase_changed', phase, previous, serverTime: Date.now() });
+    });
+
+    this.gameManager.setCountdownTickCallback((gameId, remaining, endsAt) => {
+      this.connectionManager.broadcastToGame(gameId, { type: 'countdown_tick', remaining, endsAt, serverTime: Date.now() });
+    });
+
+    this.gameManager.setGameCancelledCallback((gameId, reason) => {
+      this.connectionManager.broadcastToGame(gameId, {
+        type: 'game_cancelled',
+        reason
+      });
+      this.settleGame(gameId);
+    });
+
+    this.gameManager.setGameEndedCallback((gameId, result) => {
+      this.broadcastGameState(gameId);
+      this.connectionManager.broadcastToGame(gameId, {
+        type: 'winner',
+        winnerId: result.winnerId,
+        result
+      });
+
+      this.settleGame(gameId);
+
+      const updates = this.ratings.recordPlacements(result.placements.map(p => p.playerId));
+      if (updates.length > 0) {
+        this.connectionManager.broadcastToGame(gameId, { type: 'rating_update', updates });
       }
     });
 
-    ws.on('close', () => {
-      this.handleDisconnect(challengeId, playerId);
+    this.battleManager.setBattleEndedCallback((challengeId, players, winner, reason) => {
+      this.settlements?.submit(buildSettlementRecord('battle', challengeId, {
+        winner,
+        placements: [],
+        participants: players,
+        refunds: winner ? [] : players,
+        resultHash: createHash('sha256').update(JSON.stringify({ challengeId, players, winner, reason })).digest('hex')
+      }));
+
+      if (players.length !== 2 || UNRATED_BATTLE_REASONS.includes(reason)) return;
+
+      const updates = this.ratings.recordBattle(players as [string, string], winner);
+      this.battleManager.broadcastToBattle(challengeId, { type: 'rating_update', updates });
     });
-  }
 
-  private handleMessage(challengeId: string, playerId: string, msg: any) {
-    const battle = this.battles.get(challengeId);
-    if (!battle) return;
+    this.settlements?.setStatusCallback(settlement => {
+      const message: ServerMessage = { type: 'settlement_status', settlement: toSettlementView(settlement) };
+      if (settlement.record.kind === 'game') {
+        this.connectionManager.broadcastToGame(parseInt(settlement.record.matchId), message);
+      } else {
+        this.battleManager.broadcastToBattle(settlement.record.matchId, message);
+      }
+    });
 
-    if (msg.type === 'submit_move') {
-      const round = msg.round;
-      const move: BattleMove = {
-        playerId,
-        move: msg.move,
-        round,
-        submittedAt: Date.now()
-      };
+    // The queue node creates the battle and holds it, so both players are routed straight to it
+    this.matchmaking.setMatchCallback((challengeId, players, tier) => {
+      this.battleManager.createMatchedBattle(challengeId, players, tier);
+      this.cluster.adopt({ kind: 'battle', id: challengeId, playerId: null });
+    });
+
+    this.liveness.setRttCallback((ws, rtt) => this.cluster.reportLatency(ws, rtt));
+    this.cluster.setLatencyCallback((ws, rtt) => this.applyLatency(ws, rtt));
+    this.cluster.setAttachCallback((ws, target) => this.attachConnection(ws, target));
+    this.cluster.setActivityCheck(target => {
+      if (target.kind === 'game') return this.gameManager.getGameState(parseInt(target.id)) !== undefined;
+      if (target.kind === 'battle') return this.battleManager.hasBattle(target.id);
+      return true;
+    });
+
+    metricsRegistry.addCollector(() => this.collectMetrics());
+
+    // Settlements come back first so games cancelled during recovery are not submitted twice
+    this.settlements?.restore();
+
+    // Everyone in a recovered session starts out disconnected and gets the usual window to come back
+    this.gameManager.restore().forEach(game => {
+      this.cluster.adopt({ kind: 'game', id: String(game.gameId), playerId: null });
+      game.members.forEach(playerId => this.startReconnectGrace(playerId, game.gameId));
+      if (game.phase === 'waiting' && game.deadline !== null) {
+        this.startDeadlineMonitor(game.gameId, game.deadline);
+      }
+    });
+    this.battleManager.restore().forEach(challengeId => {
+      this.cluster.adopt({ kind: 'battle', id: challengeId, playerId: null });
+    });
+
+    this.cluster.startLeaseRenewal();
+    this.replays.startFlushTimer();
+
+    this.setupWebSocketServer();
+    this.startHealthCheck();
+    this.battleManager.startCleanupTimer();
+    this.matchmaking.startMatchTimer();
+
+    server.listen(port, () => {
+      this.log.info('Unified WebSocket server listening', {
+        port,
+        nodeId,
+        websocket: {
+          phase3: '/?gameId=X&playerId=Y[&sessionToken=T][&protocol=N][&encoding=msgpack]',
+          battles: '/battle?challengeId=X&playerId=Y[&sessionToken=T][&protocol=N]',
+          matchmaking: '/matchmaking?playerId=Y[&sessionToken=T]',
+          spectators: 'role=spectator (no playerId) on the Phase 3 or battle URL',
+          replays: '/replay?gameId=X|challengeId=X[&speed=2]'
+        },
+        http: ['/health', '/metrics', '/games', '/games/:id', '/battles/:challengeId', '/replays/:kind/:id', '/leaderboard/:period', '/ratings/:playerId']
+      });
+    });
+  }
+
+  private setupWebSocketServer(): void {
+    this.wss.on('connection', (ws: WebSocket, request) => {
+      const { pathname, query } = parse(request.url || '', true);
 
-      if (!battle.moves.has(round)) {
-        battle.moves.set(round, []);
+      // Oversized frames and protocol violations surface here; without a listener they would crash the process
+      ws.on('error', (error) => {
+        this.log.error('WebSocket error', { path: pathname, error: error.message });
+      });
+
+      if (!this.floodGuard.admit(ws, this.getClientIp(request))) {
+        ws.close(4029, 'Too many connections');
+        return;
       }
 
-      const roundMoves = battle.moves.get(round)!;
-      if (roundMoves.some(m => m.playerId === playerId)) return;
+      this.liveness.track(ws);
 
-      roundMoves.push(move);
+      const connectionLabels = {
+        endpoint: pathname === '/replay' || pathname === '/battle' || pathname === '/matchmaking' ? pathname.slice(1) : 'game',
+        role: pathname === '/replay' || query.role === 'spectator' ? 'spectator' : 'player'
+      };
+      metrics.connections.inc(connectionLabels);
+      ws.on('close', () => metrics.connections.dec(connectionLabels));
+
+      const protocolVersion = negotiateProtocolVersion(query.protocol);
+      if (protocolVersion === null) {
+        this.log.warn('Rejected unsupported protocol version', { protocol: query.protocol });
+        ws.close(4002, `Unsupported protocol version; server supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`);
+        return;
+      }
 
-      this.broadcastToBattle(challengeId, {
-        type: 'opponent_moved',
-        playerId
-      }, playerId);
+      const options: ConnectionOptions = {
+        protocolVersion,
+        encoding: negotiateEncoding(query.encoding, protocolVersion)
+      };
 
-      if (roundMoves.length === 2) {
-        this.broadcastToBattle(challengeId, {
-          type: 'round_complete',
-          round,
-          moves: roundMoves.map(m => ({
-            playerAddress: m.playerId,
-            move: m.move
-          }))
-        });
+      if (pathname === '/replay') {
+        this.handleReplayConnection(ws, query);
+      } else if (query.role === 'spectator') {
+        this.handleSpectatorConnection(ws, pathname, query);
+      } else if (pathname === '/matchmaking') {
+        this.handleMatchmakingConnection(ws, query, { ...options, encoding: 'json' });
+      } else if (pathname === '/battle') {
+        // Battle traffic is a handful of small messages per round, so it always stays on JSON
+        this.handleBattleConnection(ws, query, { ...options, encoding: 'json' });
+      } else {
+        this.handlePhase3Connection(ws, query, options);
       }
-    } else if (msg.type === 'game_ended') {
-      battle.status = 'ended';
-      battle.winner = msg.winner;
-      this.broadcastToBattle(challengeId, {
-        type: 'game_ended',
-        winner: msg.winner,
-        challengeId
-      });
-      setTimeout(() => this.cleanup(challengeId), 30000);
-    }
+    });
   }
 
-  private handleDisconnect(challengeId: string, playerId: string) {
-    const battle = this.battles.get(challengeId);
-    if (!battle) return;
-
-    battle.connections.delete(playerId);
-
-    this.broadcastToBattle(challengeId, {
-      type: 'opponent_left',
-      playerId
-    }, playerId);
-
-    if (battle.status === 'in_progress') {
-      const remaining = Array.from(battle.players).find(p => p !== playerId);
-      if (remaining) {
-        battle.winner = remaining;
-        this.broadcastToBattle(challengeId, {
-          type: 'game_ended',
-          winner: remaining,
-          challengeId
-        });
+  // Spectators are read-only and anonymous, so they skip authentication entirely
+  private handleSpectatorConnection(ws: WebSocket, pathname: string | null, query: ParsedUrlQuery) {
+    if (pathname === '/battle') {
+      const challengeId = typeof query.challengeId === 'string' ? query.challengeId : null;
+      if (!challengeId) {
+        ws.close(1008, 'Invalid parameters');
+        return;
       }
+
+      this.cluster.route(ws, { kind: 'battle', id: challengeId, playerId: null });
+      return;
     }
 
-    if (battle.connections.size === 0) {
-      this.cleanup(challengeId);
+    const gameId = typeof query.gameId === 'string' ? parseInt(query.gameId) : NaN;
+    if (!gameId) {
+      ws.close(1008, 'Invalid parameters');
+      return;
     }
+
+    this.cluster.route(ws, { kind: 'game', id: String(gameId), playerId: null });
   }
 
-  private sendTo(ws: WebSocket, msg: any) {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(msg));
+  // Plays back what the whole match saw, paced by the original timestamps, using the live message types
+  private handleReplayConnection(ws: WebSocket, query: ParsedUrlQuery) {
+    const kind: ReplayKind = query.challengeId ? 'battle' : 'game';
+    const id = query.challengeId || query.gameId;
+    const speedParam = query.speed ?? '1';
+    const speed = typeof speedParam === 'string' ? parseFloat(speedParam || '1') : NaN;
+
+    if (typeof id !== 'string' || !id || !REPLAY_SPEEDS.includes(speed)) {
+      ws.close(1008, 'Invalid parameters');
+      return;
     }
-  }
 
-  private broadcastToBattle(id: string, msg: any, exclude?: string) {
-    const battle = this.battles.get(id);
-    if (!battle) return;
+    const events = this.replays.loadFinished(kind, id);
+    if (events === 'in_progress') {
+      ws.close(1008, 'Replay is available once the match has ended');
+      return;
+    }
+    if (!events) {
+      ws.close(4004, 'Replay not found');
+      return;
+    }
 
-    battle.connections.forEach((ws, pid) => {
-      if (pid !== exclude) {
-        this.sendTo(ws, msg);
+    const broadcasts = events.filter(event => event.direction === 'out' && event.playerId === null);
+    this.log.info('Replaying match', { kind, id, events: broadcasts.length, speed });
+
+    let index = 0;
+    let timer: NodeJS.Timeout | null = null;
+
+    const playNext = () => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      if (index >= broadcasts.length) {
+        ws.close(1000, 'Replay finished');
+        return;
       }
-    });
-  }
 
-  private cleanup(id: string) {
-    const battle = this.battles.get(id);
-    if (!battle) return;
+      const event = broadcasts[index++];
+      ws.send(JSON.stringify(event.message));
+      metrics.messagesOut.inc({ type: event.message.type });
 
-    battle.connections.forEach(ws => {
-      if (ws.readyState === WebSocket.OPEN) ws.close();
+      const next = broadcasts[index];
+      timer = setTimeout(playNext, next ? (next.at - event.at) / speed : 0);
+    };
+
+    ws.on('close', () => {
+      if (timer) clearTimeout(timer);
     });
 
-    this.battles.delete(id);
-    console.log(`[BattleManager] Cleaned up battle: ${id}`);
+    playNext();
   }
 
-  startCleanupTimer() {
-    setInterval(() => {
-      const now = Date.now();
-      this.battles.forEach((b, id) => {
-        if (now - b.createdAt > 1800000 && b.status !== 'in_progress') {
-          this.cleanup(id);
-        }
-      });
-    }, 60000);
-  }
-}
+  private handleBattleConnection(ws: WebSocket, query: ParsedUrlQuery, options: ConnectionOptions) {
+    const challengeId = typeof query.challengeId === 'string' ? query.challengeId : null;
+    const playerId = typeof query.playerId === 'string' ? query.playerId : null;
 
-// ============================================================================
-// MAIN UNIFIED SERVER
-// ============================================================================
+    if (!challengeId || !playerId) {
+      this.log.warn('Invalid battle connection parameters', { challengeId, playerId });
+      ws.close(1008, 'Invalid parameters');
+      return;
+    }
 
-class UnifiedServer {
-  private wss: WebSocketServer;
-  private gameManager: GameManager;
-  private connectionManager: ConnectionManager;
-  private messageHandler: MessageHandler;
-  private battleManager: BattleManager;
-  private gameDeadlineTimers: Map<number, NodeJS.Timeout> = new Map();
+    this.authManager.authenticate(ws, playerId, this.sessionTokenOf(query), options, () => {
+      this.cluster.route(ws, { kind: 'battle', id: challengeId, playerId, options });
+    });
+  }
 
-  constructor(port: number = 3001) {
-    this.gameManager = new GameManager();
-    this.connectionManager = new ConnectionManager();
-    this.messageHandler = new MessageHandler(this.gameManager, this.connectionManager);
-    this.battleManager = new BattleManager();
+  private handleMatchmakingConnection(ws: WebSocket, query: ParsedUrlQuery, options: ConnectionOptions) {
+    const playerId = typeof query.playerId === 'string' ? query.playerId : null;
 
-    const server = createServer();
-    this.wss = new WebSocketServer({ server });
+    if (!playerId) {
+      this.log.warn('Invalid matchmaking connection parameters');
+      ws.close(1008, 'Invalid parameters');
+      return;
+    }
 
-    this.gameManager.setGameStateChangeCallback((gameId) => {
-      this.broadcastGameState(gameId);
+    // A single queue spans the cluster so players on different nodes can still be paired
+    this.authManager.authenticate(ws, playerId, this.sessionTokenOf(query), options, () => {
+      this.cluster.route(ws, { kind: 'matchmaking', id: 'queue', playerId, options });
     });
+  }
 
-    this.setupWebSocketServer();
-    this.startHealthCheck();
-    this.battleManager.startCleanupTimer();
+  private handlePhase3Connection(ws: WebSocket, query: ParsedUrlQuery, options: ConnectionOptions) {
+    const gameId = typeof query.gameId === 'string' ? parseInt(query.gameId) : NaN;
+    const playerId = typeof query.playerId === 'string' ? query.playerId : null;
 
-    server.listen(port, () => {
-      console.log(`[Server] Unified WebSocket server running on port ${port}`);
-      console.log(`[Server] - Phase 3: ws://localhost:${port}?gameId=X&playerId=Y`);
-      console.log(`[Server] - Battles: ws://localhost:${port}/battle?challengeId=X&playerId=Y`);
+    if (!gameId || !playerId) {
+      this.log.warn('Invalid Phase 3 connection parameters', { gameId: query.gameId, playerId });
+      ws.close(1008, 'Invalid parameters');
+      return;
+    }
+
+    this.authManager.authenticate(ws, playerId, this.sessionTokenOf(query), options, () => {
+      this.cluster.route(ws, { kind: 'game', id: String(gameId), playerId, options });
     });
   }
 
-  private setupWebSocketServer(): void {
-    this.wss.on('connection', (ws: WebSocket, request) => {
-      const { pathname, query } = parse(request.url || '', true);
+  // A repeated parameter arrives as an array, which is never a valid token
+  private sessionTokenOf(query: ParsedUrlQuery): string | undefined {
+    return typeof query.sessionToken === 'string' ? query.sessionToken : undefined;
+  }
+
+  // Runs on the node that owns the game; ws may be a relay for a socket held by another node
+  private attachConnection(ws: ClientSocket, target: ClusterTarget): void {
+    const { kind, id, playerId, options } = target;
 
-      if (pathname === '/battle') {
-        this.handleBattleConnection(ws, query);
+    if (kind === 'matchmaking') {
+      this.matchmaking.handleConnection(ws, playerId!);
+    } else if (kind === 'battle') {
+      if (playerId) {
+        this.log.info('Battle connection', { challengeId: id, playerId });
+        this.battleManager.handleConnection(ws, id, playerId);
       } else {
-        this.handlePhase3Connection(ws, query);
+        this.battleManager.handleSpectatorConnection(ws, id);
+      }
+    } else if (playerId) {
+      this.registerPhase3Connection(ws, playerId, parseInt(id), options ?? { protocolVersion: MIN_PROTOCOL_VERSION, encoding: 'json' });
+    } else {
+      this.registerPhase3Spectator(ws, parseInt(id));
+    }
+  }
+
+  private registerPhase3Spectator(ws: ClientSocket, gameId: number) {
+    this.log.info('Phase 3 spectator connection', { gameId });
+
+    this.connectionManager.addSpectator(ws, gameId);
+    this.sendInitialGameState(gameId, message => this.connectionManager.sendToSpectator(ws, message));
+    this.broadcastGameState(gameId);
+
+    ws.on('message', (data: Buffer) => {
+      const parsed = parseClientMessage<Phase3ClientMessage>(data, PHASE3_MESSAGE_SCHEMAS);
+      if (!this.floodGuard.allow(ws, parsed.ok ? parsed.message.type : '*')) return;
+      if (parsed.ok && parsed.message.type === 'heartbeat') return;
+      if (parsed.ok && parsed.message.type === 'time_sync') {
+        this.sendTo(ws, timeSyncReply(parsed.message.clientTime));
+        return;
       }
+
+      this.sendTo(ws, parsed.ok
+        ? { type: 'error', code: 'NOT_ALLOWED', message: 'Spectators cannot send gameplay messages' }
+        : { type: 'error', code: parsed.code, message: parsed.error });
+    });
+
+    ws.on('close', () => {
+      this.connectionManager.removeSpectator(ws, gameId);
+      this.broadcastGameState(gameId);
     });
   }
 
-  private handleBattleConnection(ws: WebSocket, query: any) {
-    const challengeId = query.challengeId as string;
-    const playerId = query.playerId as string;
+  private registerPhase3Connection(ws: ClientSocket, playerId: string, gameId: number, options: ConnectionOptions) {
+    if (this.gameManager.getGameState(gameId)?.kicked.has(playerId)) {
+      ws.close(4003, 'Kicked from game');
+      return;
+    }
 
-    if (!challengeId || !playerId) {
-      console.error('[Server] Battle - Invalid parameters');
-      ws.close(1008, 'Invalid parameters');
+    if (!this.gameManager.hasRoomFor(gameId, playerId)) {
+      this.log.info('Rejected player from full lobby', { gameId, playerId });
+      ws.close(4010, 'Lobby is full');
       return;
     }
 
-    console.log(`[Server] Battle: ${playerId.slice(0, 8)} -> Challenge ${challengeId}`);
-    this.battleManager.handleConnection(ws, challengeId, playerId);
-  }
+    const previous = this.connectionManager.getSocket(playerId, gameId);
+    const replacing = previous !== undefined && previous !== ws && previous.readyState === WebSocket.OPEN;
+    if (replacing && this.config.duplicateConnections === 'reject') {
+      this.log.info('Rejected second connection', { gameId, playerId });
+      ws.close(4011, 'Already connected from another session');
+      return;
+    }
 
-  private handlePhase3Connection(ws: WebSocket, query: any) {
-    const gameId = parseInt(query.gameId as string);
-    const playerId = query.playerId as string;
+    const reconnectKey = `${gameId}-${playerId}`;
+    const reconnectTimer = this.reconnectTimers.get(reconnectKey);
+    const resuming = reconnectTimer !== undefined || replacing;
 
-    if (!gameId || !playerId) {
-      console.error('[Server] Phase 3 - Invalid parameters');
-      ws.close(1008, 'Invalid parameters');
-      return;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      this.reconnectTimers.delete(reconnectKey);
     }
 
-    console.log(`[Server] Phase 3: Player ${playerId.slice(0, 8)} -> Game ${gameId}`);
+    const log = this.log.child({ gameId, playerId });
+    log.info('Phase 3 connection', { replaced: replacing, resumed: resuming });
 
-    this.connectionManager.addConnection(ws, playerId, gameId);
+    this.connectionManager.addConnection(ws, playerId, gameId, options);
+    if (replacing) {
+      // The old socket's close handler finds the slot taken and leaves the player in the game
+      previous!.close(4009, 'Replaced by a newer connection');
+    }
     this.gameManager.addPlayer(gameId, playerId);
+    this.gameManager.setPlayerConnected(gameId, playerId, true);
 
-    this.sendInitialGameState(ws, gameId);
+    this.sendInitialGameState(gameId, message => this.connectionManager.sendToPlayer(playerId, gameId, message));
 
     this.connectionManager.broadcastToGame(
       gameId,
       {
-        type: 'player_connected',
+        type: resuming ? 'player_reconnected' : 'player_connected',
         playerId
       },
       playerId
     );
 
     ws.on('message', (data: Buffer) => {
+      // Frames still in flight on a replaced socket must not act for the player
+      if (this.connectionManager.getSocket(playerId, gameId) !== ws) return;
+
+      const parsed = parseClientMessage<Phase3ClientMessage>(data, PHASE3_MESSAGE_SCHEMAS);
+      if (!this.floodGuard.allow(ws, parsed.ok ? parsed.message.type : '*')) return;
+      if (!parsed.ok) {
+        this.connectionManager.sendToPlayer(playerId, gameId, { type: 'error', code: parsed.code, message: parsed.error });
+        return;
+      }
+
+      // Answered straight from the socket so the reply leaves as close to receipt as possible, and stays out of replays
+      if (parsed.message.type === 'time_sync') {
+        ws.send(encodeFrame(timeSyncReply(parsed.message.clientTime), options.encoding));
+        metrics.messagesOut.inc({ type: 'time_sync' });
+        return;
+      }
+
+      this.replays.record('game', String(gameId), 'in', playerId, parsed.message);
+
       try {
-        const message = JSON.parse(data.toString());
-        this.handlePhase3Message(playerId, gameId, message);
+        this.handlePhase3Message(playerId, gameId, parsed.message);
       } catch (error) {
-        console.error('[Server] Error parsing Phase 3 message:', error);
+        log.error('Error handling Phase 3 message', { type: parsed.message.type, error });
       }
     });
 
     ws.on('close', () => {
-      console.log(`[Server] Phase 3: Player ${playerId.slice(0, 8)} disconnected from game ${gameId}`);
+      if (!this.connectionManager.removeConnection(playerId, gameId, ws)) return;
+
+      log.info('Phase 3 player disconnected');
 
-      this.connectionManager.removeConnection(playerId, gameId);
-      this.gameManager.removePlayer(gameId, playerId);
+      const game = this.gameManager.getGameState(gameId);
+      if (!game || !game.members.has(playerId)) return;
+
+      if (game.phase === 'ended') {
+        this.removePhase3Player(playerId, gameId);
+        return;
+      }
+
+      // Hold the slot so a flaky connection does not cost the player their seat or their wager
+      this.gameManager.setPlayerConnected(gameId, playerId, false);
 
       this.connectionManager.broadcastToGame(gameId, {
-        type: 'player_disconnected',
-        playerId
+        type: 'player_reconnecting',
+        playerId,
+        reconnectDeadline: Date.now() + this.reconnectGracePeriod
       });
+
+      this.startReconnectGrace(playerId, gameId);
     });
 
     ws.on('error', (error) => {
-      console.error(`[Server] Phase 3 WebSocket error for player ${playerId.slice(0, 8)}:`, error);
+      log.error('Phase 3 WebSocket error', { error });
+    });
+  }
+
+  private startReconnectGrace(playerId: string, gameId: number): void {
+    const reconnectKey = `${gameId}-${playerId}`;
+
+    this.reconnectTimers.set(reconnectKey, setTimeout(() => {
+      this.reconnectTimers.delete(reconnectKey);
+      this.log.info('Player did not reconnect', { gameId, playerId });
+      this.removePhase3Player(playerId, gameId);
+    }, this.reconnectGracePeriod));
+  }
+
+  private kickPhase3Player(gameId: number, playerId: string, code: number = 4001, reason: string = 'Kicked by admin'): boolean {
+    const reconnectKey = `${gameId}-${playerId}`;
+    const reconnectTimer = this.reconnectTimers.get(reconnectKey);
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      this.reconnectTimers.delete(reconnectKey);
+    }
+
+    if (!this.gameManager.kickPlayer(gameId, playerId)) return false;
+
+    this.connectionManager.closeConnection(playerId, gameId, code, reason);
+    this.connectionManager.broadcastToGame(gameId, {
+      type: 'player_kicked',
+      playerId
+    });
+    return true;
+  }
+
+  private removePhase3Player(playerId: string, gameId: number): void {
+    this.gameManager.removePlayer(gameId, playerId);
+
+    this.connectionManager.broadcastToGame(gameId, {
+      type: 'player_disconnected',
+      playerId
     });
   }
 
-  private handlePhase3Message(playerId: string, gameId: number, message: any): void {
+  private handlePhase3Message(playerId: string, gameId: number, message: Phase3ClientMessage): void {
     if (message.type === 'set_deadline') {
-      this.startDeadlineMonitor(gameId, message.deadline);
+      this.handleSetDeadline(playerId, gameId, message);
     } else {
       this.messageHandler.handleMessage(playerId, gameId, message);
 
@@ -791,18 +6281,111 @@ class UnifiedServer {
     }
   }
 
+  private handleSetDeadline(playerId: string, gameId: number, request: Extract<Phase3ClientMessage, { type: 'set_deadline' }>): void {
+    if (!this.gameManager.isHost(gameId, playerId)) {
+      this.auditLog.record({
+        action: 'set_deadline',
+        actor: playerId,
+        target: `game ${gameId}`,
+        outcome: 'rejected',
+        reason: 'not the lobby host'
+      });
+      this.connectionManager.sendToPlayer(playerId, gameId, {
+        type: 'error',
+        code: 'NOT_ALLOWED',
+        message: 'Only the lobby host can set the deadline'
+      });
+      return;
+    }
+
+    const deadline = resolveDeadline(request);
+    if (deadline === null) {
+      this.connectionManager.sendToPlayer(playerId, gameId, {
+        type: 'error',
+        code: 'INVALID_PAYLOAD',
+        message: 'set_deadline needs exactly one of delay or deadline'
+      });
+      return;
+    }
+
+    const result = this.applyDeadline(gameId, deadline);
+    if (!result.success) {
+      this.connectionManager.sendToPlayer(playerId, gameId, {
+        type: 'error',
+        code: 'INVALID_PAYLOAD',
+        message: result.message
+      });
+    }
+  }
+
+  private applyDeadline(gameId: number, deadline: number): { success: boolean; message: string } {
+    const result = this.gameManager.setDeadline(gameId, deadline);
+    if (result.success) {
+      this.startDeadlineMonitor(gameId, deadline);
+    }
+    return result;
+  }
+
+  private createSettlementQueue(store: GameStore): SettlementQueue | null {
+    if (process.env.SETTLEMENT_URL) {
+      return new SettlementQueue(new HttpSettlementAdapter(process.env.SETTLEMENT_URL, process.env.SETTLEMENT_TOKEN), store);
+    }
+    if (process.env.SETTLEMENT_MOCK === 'true') {
+      return new SettlementQueue(new MockSettlementAdapter(parseFloat(process.env.SETTLEMENT_MOCK_FAILURE_RATE || '0')), store);
+    }
+
+    this.log.warn('No settlement adapter configured; results will not be paid out');
+    return null;
+  }
+
+  private settleGame(gameId: number): void {
+    const game = this.gameManager.getGameState(gameId);
+    if (!this.settlements || !game) return;
+
+    const { result } = game;
+    this.settlements.submit(buildSettlementRecord('game', String(gameId), {
+      winner: result?.winnerId ?? null,
+      placements: result?.placements ?? [],
+      participants: result ? result.placements.map(p => p.playerId) : Array.from(game.members),
+      refunds: game.refunds,
+      resultHash: result?.resultHash ?? null
+    }));
+  }
+
+  private configureGame(gameId: number, lobbyType: string | null, overrides: unknown): { success: boolean; message: string; badRequest?: boolean } {
+    const base = lobbyType === null ? this.config.rules : this.config.lobbyTypes[lobbyType];
+    if (!base) {
+      return { success: false, message: `Unknown lobby type: ${lobbyType}`, badRequest: true };
+    }
+
+    const resolved = resolveGameRules(overrides, base);
+    if (!resolved.ok) {
+      return { success: false, message: resolved.errors.join('; '), badRequest: true };
+    }
+
+    return this.gameManager.configureGame(gameId, resolved.rules);
+  }
+
+  // Before the deadline a lobby only starts itself once every member is ready
   private checkAutoStart(gameId: number): void {
+    const game = this.gameManager.getGameState(gameId);
+    if (!game || game.readyPlayers.size < game.members.size) return;
+
+    this.scheduleStart(gameId);
+  }
+
+  private scheduleStart(gameId: number): void {
     const { canStart, readyCount } = this.gameManager.canStartGame(gameId);
 
     if (canStart) {
-      console.log(`[Server] Auto-starting game ${gameId} - ${readyCount} players ready`);
+      this.log.info('Auto-starting game', { gameId, ready: readyCount });
 
       setTimeout(() => {
         const result = this.gameManager.startGame(gameId);
         if (result.success) {
           this.broadcastGameState(gameId);
         }
-      }, 1000);
+      }, this.gameManager.getGameState(gameId)!.rules.autoStartDelay);
     }
   }
 
@@ -816,49 +6399,85 @@ class UnifiedServer {
     const timeUntilDeadline = deadline - now;
 
     if (timeUntilDeadline <= 0) {
-      this.checkAutoStart(gameId);
+      this.handleDeadline(gameId);
       return;
     }
 
-    console.log(`[Server] Deadline monitor for game ${gameId} - ${Math.round(timeUntilDeadline / 1000)}s`);
+    this.log.info('Deadline monitor started', { gameId, remaining: timeUntilDeadline });
 
     const timer = setTimeout(() => {
-      console.log(`[Server] Deadline expired for game ${gameId}, auto-starting...`);
-      this.checkAutoStart(gameId);
+      this.log.info('Deadline expired', { gameId });
+      this.handleDeadline(gameId);
     }, timeUntilDeadline);
 
     this.gameDeadlineTimers.set(gameId, timer);
   }
 
-  private sendInitialGameState(ws: WebSocket, gameId: number): void {
+  // At the deadline the lobby starts with whoever is ready or is called off; it never hands out a default win
+  private handleDeadline(gameId: number): void {
+    this.gameDeadlineTimers.delete(gameId);
+
+    const game = this.gameManager.getGameState(gameId);
+    if (!game || game.phase !== 'waiting') return;
+
+    const { canStart, reason } = this.gameManager.canStartGame(gameId);
+    if (!canStart) {
+      this.log.info('Game cannot start at its deadline', { gameId, reason });
+      this.gameManager.cancelLobby(gameId, 'not_enough_players');
+      return;
+    }
+
+    const unready = this.gameManager.getUnreadyPlayers(gameId);
+    if (unready.length > 0) {
+      const policy = game.rules.unreadyPolicy;
+      this.log.info('Unready players at deadline', { gameId, policy, playerIds: unready });
+
+      this.connectionManager.broadcastToGame(gameId, { type: 'unready_players', policy, playerIds: unready });
+
+      if (policy === 'kick') {
+        unready.forEach(playerId => this.kickPhase3Player(gameId, playerId, 4003, 'Not ready before the deadline'));
+      } else {
+        this.gameManager.addRefunds(gameId, unready);
+      }
+    }
+
+    this.scheduleStart(gameId);
+  }
+
+  private sendInitialGameState(gameId: number, send: (message: ServerMessage) => void): void {
     const game = this.gameManager.getGameState(gameId);
     if (!game) return;
 
-    const message = {
+    send({
       type: 'game_state_update',
-      gameState: {
-        phase: game.phase,
-        countdownStartTime: game.countdownStartTime,
-        countdownDuration: game.countdownDuration,
-        readyPlayers: game.readyPlayers.size,
-        totalPlayers: this.connectionManager.getGamePlayerIds(gameId).length
-      }
-    };
+      gameState: buildGameStateView(
+        game,
+        this.connectionManager.getGamePlayerIds(gameId).length,
+        this.connectionManager.getSpectatorCount(gameId)
+      )
+    });
 
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+    const snapshot = this.gameManager.getSnapshot(gameId);
+    if (snapshot || game.players.size > 0) {
+      send(snapshot
+        ? { type: 'sync', ...snapshot }
+        : { type: 'sync', players: Array.from(game.players.values()) });
     }
 
-    if (game.players.size > 0) {
-      const players = Array.from(game.players.values());
-      const syncMessage = {
-        type: 'sync',
-        players
-      };
+    // Everything a resuming client may have missed while its socket was down
+    if (game.eliminations.length > 0) {
+      send({
+        type: 'eliminations',
+        placements: game.eliminations
+      });
+    }
 
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(syncMessage));
-      }
+    if (game.result) {
+      send({
+        type: 'winner',
+        winnerId: game.result.winnerId,
+        result: game.result
+      });
     }
   }
 
@@ -868,22 +6487,65 @@ class UnifiedServer {
 
     this.connectionManager.broadcastToGame(gameId, {
       type: 'game_state_update',
-      gameState: {
-        phase: game.phase,
-        countdownStartTime: game.countdownStartTime,
-        countdownDuration: game.countdownDuration,
-        readyPlayers: game.readyPlayers.size,
-        totalPlayers: this.connectionManager.getGamePlayerIds(gameId).length
-      }
+      gameState: buildGameStateView(
+        game,
+        this.connectionManager.getGamePlayerIds(gameId).length,
+        this.connectionManager.getSpectatorCount(gameId)
+      )
+    });
+  }
+
+  // Behind a proxy every socket shares the proxy's address, so the forwarded one is used when trusted
+  private getClientIp(request: IncomingMessage): string {
+    const forwarded = request.headers['x-forwarded-for'];
+    if (this.trustProxy && typeof forwarded === 'string') {
+      return forwarded.split(',')[0].trim();
+    }
+    return request.socket.remoteAddress || 'unknown';
+  }
+
+  private sendTo(ws: ClientSocket, message: ServerMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+      metrics.messagesOut.inc({ type: message.type });
+    }
+  }
+
+  // Point-in-time gauges are rebuilt from live state on every scrape rather than tracked incrementally
+  private collectMetrics(): void {
+    metrics.games.reset();
+    (['waiting', 'countdown', 'active', 'ended'] as const).forEach(phase => metrics.games.set({ phase }, 0));
+    this.gameManager.listGames().forEach(game => metrics.games.inc({ phase: game.phase }));
+
+    metrics.battles.reset();
+    Object.entries(this.battleManager.getStatusCounts()).forEach(([status, count]) => metrics.battles.set({ status }, count));
+
+    metrics.timers.reset();
+    const owners: Record<string, Record<string, number>> = {
+      game: this.gameManager.getTimerCounts(),
+      battle: this.battleManager.getTimerCounts(),
+      settlement: this.settlements?.getTimerCounts() ?? {},
+      server: { deadline: this.gameDeadlineTimers.size, reconnect: this.reconnectTimers.size }
+    };
+    Object.entries(owners).forEach(([owner, counts]) => {
+      Object.entries(counts).forEach(([kind, count]) => metrics.timers.set({ owner, kind }, count));
     });
   }
 
   private startHealthCheck(): void {
+    this.liveness.start();
     setInterval(() => {
-      this.connectionManager.checkStaleConnections();
-    }, 30000);
+      this.authManager.pruneExpiredSessions();
+    }, this.config.healthCheckInterval);
 
-    console.log('[Server] Health check started');
+    this.log.info('Health check started', { interval: this.config.healthCheckInterval });
+  }
+
+  private applyLatency(ws: ClientSocket, rtt: number): void {
+    const conn = this.connectionManager.setLatency(ws, rtt);
+    if (conn) {
+      this.gameManager.updateLatency(conn.gameId, conn.playerId, rtt);
+    }
   }
 }
 
@@ -0,0 +1,27 @@
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createWallet, startServer, TestClient, TestServer } from './helpers';
+
+describe('authentication', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.stop());
+
+  // ?playerId=a&playerId=b parses to an array whose characters decode to the same key as the address
+  const splitPlayerId = (id: string) => Array.from(id).map(char => `playerId=${char}`).join('&');
+
+  for (const [endpoint, path] of [['/', '/?gameId=301&'], ['/battle', '/battle?challengeId=auth-split&'], ['/matchmaking', '/matchmaking?']]) {
+    it(`rejects a playerId repeated into an array on ${endpoint}`, { timeout: 5000 }, async () => {
+      const wallet = createWallet();
+      const client = new TestClient(`${server.url}${path}${splitPlayerId(wallet.id)}`, wallet);
+
+      const { code } = await client.closed;
+      assert.equal(code, 1008);
+      assert.equal(client.received('auth_success').length, 0);
+    });
+  }
+});
@@ -0,0 +1,203 @@
+import assert from 'assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { createWallet, delay, startServer, TestClient, TestServer, Wallet } from './helpers';
+
+// Long enough for the server to act on a frame it was going to act on
+const SETTLE_TIME = 300;
+const COMMITMENT = 'a'.repeat(64);
+
+let clients: TestClient[] = [];
+
+function open(url: string, wallet: Wallet): TestClient {
+  const client = new TestClient(url, wallet);
+  clients.push(client);
+  return client;
+}
+
+afterEach(() => {
+  clients.forEach(client => client.close());
+  clients = [];
+});
+
+describe('duplicate connections with the replace policy', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.stop());
+
+  describe('/ (Phase 3 games)', () => {
+    const gameUrl = (gameId: number, wallet: Wallet) => `${server.url}/?gameId=${gameId}&playerId=${wallet.id}`;
+
+    it('closes the replaced socket after the new one registers and keeps the player seated', async () => {
+      const player = createWallet();
+      const opponentWallet = createWallet();
+      const opponent = open(gameUrl(101, opponentWallet), opponentWallet);
+      await opponent.next('auth_success');
+
+      const first = open(gameUrl(101, player), player);
+      await first.next('auth_success');
+      await opponent.next('player_connected');
+
+      const second = open(gameUrl(101, player), player);
+      await second.next('auth_success');
+      assert.equal((await first.closed).code, 4009);
+
+      second.send({ type: 'mark_ready' });
+      await second.next('game_state_update', message => (message.gameState as { readyPlayers: number }).readyPlayers === 1);
+      assert.equal(opponent.received('player_disconnected').length, 0);
+      assert.equal(opponent.received('player_reconnecting').length, 0);
+    });
+
+    it('ignores frames still in flight on the replaced socket', async () => {
+      const player = createWallet();
+      const first = open(gameUrl(102, player), player);
+      await first.next('auth_success');
+      first.stopReading();
+
+      const second = open(gameUrl(102, player), player);
+      await second.next('auth_success');
+      first.send({ type: 'mark_ready' });
+      await delay(SETTLE_TIME);
+
+      const readyCounts = second.received('game_state_update').map(message => (message.gameState as { readyPlayers: number }).readyPlayers);
+      assert.ok(readyCounts.every(count => count === 0), `expected no ready players, saw ${readyCounts.join(', ')}`);
+    });
+  });
+
+  describe('/battle', () => {
+    const battleUrl = (challengeId: string, wallet: Wallet) => `${server.url}/battle?challengeId=${challengeId}&playerId=${wallet.id}`;
+
+    async function seatBoth(challengeId: string, player: Wallet) {
+      const first = open(battleUrl(challengeId, player), player);
+      await first.next('auth_success');
+      const opponentWallet = createWallet();
+      const opponent = open(battleUrl(challengeId, opponentWallet), opponentWallet);
+      await Promise.all([first.next('game_ready'), opponent.next('game_ready')]);
+      return { first, opponent };
+    }
+
+    it('closes the replaced socket after the new one registers and keeps the seat', async () => {
+      const player = createWallet();
+      const { first, opponent } = await seatBoth('dup-replace', player);
+
+      const second = open(battleUrl('dup-replace', player), player);
+      await second.next('resync');
+      assert.equal((await first.closed).code, 4009);
+
+      second.send({ type: 'commit_move', round: 1, commitment: COMMITMENT });
+      await opponent.next('opponent_moved');
+      assert.equal(opponent.received('player_reconnecting').length, 0);
+      assert.equal(opponent.received('player_disconnected').length, 0);
+    });
+
+    it('ignores frames still in flight on the replaced socket', async () => {
+      const player = createWallet();
+      const { first, opponent } = await seatBoth('dup-inflight', player);
+      first.stopReading();
+
+      const second = open(battleUrl('dup-inflight', player), player);
+      await second.next('resync');
+      first.send({ type: 'commit_move', round: 1, commitment: COMMITMENT });
+      await delay(SETTLE_TIME);
+
+      assert.equal(opponent.received('opponent_moved').length, 0);
+    });
+  });
+
+  describe('/matchmaking', () => {
+    const queueUrl = (wallet: Wallet) => `${server.url}/matchmaking?playerId=${wallet.id}`;
+
+    async function join(wallet: Wallet, tier: string) {
+      const client = open(queueUrl(wallet), wallet);
+      await client.next('auth_success');
+      client.send({ type: 'join_queue', tier });
+      await client.next('queue_joined');
+      return client;
+    }
+
+    it('closes the replaced socket after the new one registers and matches the new one', async () => {
+      const player = createWallet();
+      const first = await join(player, 'low');
+      const second = await join(player, 'low');
+      assert.equal((await first.closed).code, 4009);
+
+      await join(createWallet(), 'low');
+      await second.next('match_found');
+    });
+
+    it('ignores frames still in flight on the replaced socket', async () => {
+      const player = createWallet();
+      const first = await join(player, 'medium');
+      first.stopReading();
+
+      const second = await join(player, 'medium');
+      first.send({ type: 'join_queue', tier: 'medium' });
+      await delay(SETTLE_TIME);
+
+      await join(createWallet(), 'medium');
+      await second.next('match_found');
+    });
+  });
+});
+
+describe('duplicate connections with the reject policy', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ duplicateConnections: 'reject' });
+  });
+
+  after(() => server.stop());
+
+  it('turns away a second Phase 3 connection and keeps the first', async () => {
+    const player = createWallet();
+    const url = `${server.url}/?gameId=201&playerId=${player.id}`;
+    const first = open(url, player);
+    await first.next('auth_success');
+
+    const second = open(url, player);
+    assert.equal((await second.closed).code, 4011);
+
+    first.send({ type: 'mark_ready' });
+    await first.next('game_state_update', message => (message.gameState as { readyPlayers: number }).readyPlayers === 1);
+  });
+
+  it('turns away a second battle connection and keeps the first', async () => {
+    const player = createWallet();
+    const opponentWallet = createWallet();
+    const url = `${server.url}/battle?challengeId=dup-reject&playerId=${player.id}`;
+    const first = open(url, player);
+    await first.next('auth_success');
+    const opponent = open(`${server.url}/battle?challengeId=dup-reject&playerId=${opponentWallet.id}`, opponentWallet);
+    await first.next('game_ready');
+
+    const second = open(url, player);
+    assert.equal((await second.closed).code, 4011);
+
+    first.send({ type: 'commit_move', round: 1, commitment: COMMITMENT });
+    await opponent.next('opponent_moved');
+  });
+
+  it('turns away a second queue entry and keeps the first', async () => {
+    const player = createWallet();
+    const url = `${server.url}/matchmaking?playerId=${player.id}`;
+    const first = open(url, player);
+    await first.next('auth_success');
+    first.send({ type: 'join_queue', tier: 'low' });
+    await first.next('queue_joined');
+
+    const second = open(url, player);
+    await second.next('auth_success');
+    second.send({ type: 'join_queue', tier: 'low' });
+    assert.equal((await second.closed).code, 4011);
+
+    const otherWallet = createWallet();
+    const other = open(`${server.url}/matchmaking?playerId=${otherWallet.id}`, otherWallet);
+    await other.next('auth_success');
+    other.send({ type: 'join_queue', tier: 'low' });
+    await first.next('match_found');
+  });
+});
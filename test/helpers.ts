@@ -0,0 +1,166 @@
+import { ChildProcess, spawn } from 'child_process';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import WebSocket from 'ws';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const SERVER_START_TIMEOUT = 20000;
+const MESSAGE_TIMEOUT = 5000;
+
+export function encodeBase58(bytes: Buffer): string {
+  let value = BigInt('0x' + (bytes.toString('hex') || '0'));
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+export interface Wallet {
+  id: string;
+  privateKey: KeyObject;
+}
+
+export function createWallet(): Wallet {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+  return { id: encodeBase58(raw), privateKey };
+}
+
+export type ServerMessage = { type: string; [key: string]: unknown };
+
+// A socket that answers the auth challenge and records everything it receives afterwards
+export class TestClient {
+  readonly ws: WebSocket;
+  readonly messages: ServerMessage[] = [];
+  readonly closed: Promise<{ code: number; reason: string }>;
+  private waiters: Array<{ predicate: (message: ServerMessage) => boolean; resolve: (message: ServerMessage) => void }> = [];
+
+  constructor(url: string, wallet?: Wallet) {
+    this.ws = new WebSocket(url);
+    this.ws.on('message', (data: Buffer) => {
+      const message = JSON.parse(data.toString()) as ServerMessage;
+      if (message.type === 'auth_challenge' && wallet) {
+        const signature = sign(null, Buffer.from(message.message as string), wallet.privateKey);
+        this.send({ type: 'auth_response', signature: encodeBase58(signature) });
+        return;
+      }
+
+      this.messages.push(message);
+      this.waiters = this.waiters.filter(waiter => {
+        if (!waiter.predicate(message)) return true;
+        waiter.resolve(message);
+        return false;
+      });
+    });
+    this.closed = new Promise(resolve => {
+      this.ws.on('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+    });
+  }
+
+  send(message: object): void {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  // Resolves with the first matching message, including ones that already arrived
+  next(type: string, predicate: (message: ServerMessage) => boolean = () => true): Promise<ServerMessage> {
+    const matches = (message: ServerMessage) => message.type === type && predicate(message);
+    const received = this.messages.find(matches);
+    if (received) return Promise.resolve(received);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${type}`)), MESSAGE_TIMEOUT);
+      this.waiters.push({
+        predicate: matches,
+        resolve: message => {
+          clearTimeout(timer);
+          resolve(message);
+        }
+      });
+    });
+  }
+
+  received(type: string): ServerMessage[] {
+    return this.messages.filter(message => message.type === type);
+  }
+
+  // Stops reading from the server so the close frame is never seen and sends still go out on the open socket
+  stopReading(): void {
+    (this.ws as unknown as { _socket: { pause(): void } })._socket.pause();
+  }
+
+  close(): void {
+    this.ws.terminate();
+  }
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const address = probe.address();
+      probe.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+export interface TestServer {
+  url: string;
+  stop(): Promise<void>;
+}
+
+// Runs the real server in a child process with its own port, data directory and config file
+export async function startServer(config: object = {}): Promise<TestServer> {
+  const port = await freePort();
+  const dataDir = mkdtempSync(join(tmpdir(), 'phase3-test-'));
+  const configFile = join(dataDir, 'config.json');
+  writeFileSync(configFile, JSON.stringify(config));
+
+  const child: ChildProcess = spawn(process.execPath, ['-r', 'ts-node/register/transpile-only', join(__dirname, '..', 'src', 'server.ts')], {
+    env: { ...process.env, PORT: String(port), DATA_DIR: join(dataDir, 'data'), CONFIG_FILE: configFile, LOG_LEVEL: 'info' },
+    stdio: ['ignore', 'pipe', 'ignore']
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Server did not start')), SERVER_START_TIMEOUT);
+    let output = '';
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (!output.includes('Unified WebSocket server listening')) return;
+
+      clearTimeout(timer);
+      child.stdout!.off('data', onData);
+      child.stdout!.resume();
+      resolve();
+    };
+    child.stdout!.on('data', onData);
+    child.once('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with code ${code}`));
+    });
+  });
+
+  return {
+    url: `ws://localhost:${port}`,
+    stop: () => new Promise(resolve => {
+      child.once('exit', () => {
+        rmSync(dataDir, { recursive: true, force: true });
+        resolve();
+      });
+      child.kill();
+    })
+  };
+}
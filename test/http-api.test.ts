@@ -0,0 +1,23 @@
+import assert from 'assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { startServer, TestServer } from './helpers';
+
+describe('HTTP API', () => {
+  let server: TestServer;
+  let baseUrl: string;
+
+  before(async () => {
+    server = await startServer();
+    baseUrl = server.url.replace('ws://', 'http://');
+  });
+
+  after(() => server.stop());
+
+  it('answers a malformed percent-encoded path with 400 and keeps serving', async () => {
+    const response = await fetch(`${baseUrl}/games/%E0%A4%A`);
+    assert.equal(response.status, 400);
+
+    const health = await fetch(`${baseUrl}/health`);
+    assert.equal(health.status, 200);
+  });
+});